@@ -0,0 +1,66 @@
+/**
+ * Mock Backend Smoke Run
+ *
+ * Runs the Topsort client in Node against injected mock transports:
+ * `npm run smoke`. Each transport gets its own MockServer, so two clients
+ * must not see each other's events or spend.
+ */
+
+import assert from 'node:assert/strict';
+import { TopsortClient } from '../src/api/topsort-client';
+import { MockServer, createMockTransport } from '../src/mock/mock-server';
+
+function totalSpend(server: MockServer): number {
+  return server.campaigns
+    .getCampaigns()
+    .reduce((sum, campaign) => sum + server.campaigns.getCampaignSpend(campaign.id).spentTotal, 0);
+}
+
+async function main(): Promise<void> {
+  const serverA = new MockServer();
+  const serverB = new MockServer();
+  const clientA = new TopsortClient({ apiKey: 'smoke-a', transport: createMockTransport(serverA) });
+  const clientB = new TopsortClient({ apiKey: 'smoke-b', transport: createMockTransport(serverB) });
+
+  try {
+    const auction = await clientA.createAuction({
+      auctions: [{ type: 'listings', slots: 2, category: { id: 'electronics' } }],
+    });
+    const winner = auction.results[0]?.winners[0];
+    assert.ok(winner, 'auction returned no winners');
+
+    // The same event IDs go to both backends; each has its own dedup state
+    const occurredAt = new Date().toISOString();
+    const events = {
+      impressions: [{ id: 'smoke-impression', resolvedBidId: winner.resolvedBidId, occurredAt, placement: { path: '/smoke' } }],
+      clicks: [{ id: 'smoke-click', resolvedBidId: winner.resolvedBidId, occurredAt }],
+    };
+    clientA.reportEvent(events);
+    clientB.reportEvent(events);
+
+    const responsesA = await clientA.flushEvents();
+    const responsesB = await clientB.flushEvents();
+    assert.deepEqual(responsesA.map(response => response.status), ['received', 'received']);
+    assert.deepEqual(responsesB.map(response => response.status), ['received', 'received']);
+
+    // Only the backend that ran the auction knows the bid, so only it charges
+    assert.ok(totalSpend(serverA) > 0, 'winning campaign was not charged');
+    assert.equal(totalSpend(serverB), 0, 'spend leaked into another mock backend');
+
+    // Relative baseUrls (e.g. a dev proxy) still reach the report handler
+    const proxied = new TopsortClient({ apiKey: 'smoke-a', baseUrl: '/topsort', transport: createMockTransport(serverA) });
+    try {
+      const report = await proxied.getAttributionReport({ model: 'linear' });
+      assert.equal(report.model, 'linear');
+    } finally {
+      proxied.destroy();
+    }
+
+    console.log('mock smoke run passed');
+  } finally {
+    clientA.destroy();
+    clientB.destroy();
+  }
+}
+
+await main();
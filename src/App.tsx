@@ -8,10 +8,7 @@ import { OnboardingPage } from '@/pages/Onboarding';
 import { CatalogPage } from '@/pages/Catalog';
 import { ProductDetailPage } from '@/pages/ProductDetail';
 import { DashboardPage } from '@/pages/Dashboard';
-import { enableMockServer } from '@/mock/mock-server';
-
-// Enable mock server for demo
-enableMockServer();
+import { CampaignsPage } from '@/pages/Campaigns';
 
 function App() {
   return (
@@ -29,6 +26,7 @@ function App() {
                 <Route path="/catalog" element={<CatalogPage />} />
                 <Route path="/product/:id" element={<ProductDetailPage />} />
                 <Route path="/dashboard" element={<DashboardPage />} />
+                <Route path="/campaigns" element={<CampaignsPage />} />
               </Route>
             </Routes>
           </CartProvider>
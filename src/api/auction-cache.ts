@@ -0,0 +1,85 @@
+/**
+ * Stale Auction Cache
+ *
+ * Remembers the last successful result for each auction slot so the
+ * storefront can keep showing sponsored placements while the Auctions API
+ * is failing. Served results are flagged stale and their winners are
+ * marked non-billable; impressions and clicks on those renders are sent
+ * with `billable: false`, so no campaign pays for a cached ad. The same
+ * bid shown from a fresh auction stays billable.
+ */
+
+import type { AuctionRequest, AuctionResponse, AuctionResult, AuctionSlot } from '../types/topsort';
+
+export const DEFAULT_AUCTION_CACHE_TTL = 60000;
+
+interface CacheEntry {
+  result: AuctionResult;
+  storedAt: number;
+}
+
+// JSON with sorted keys, so equivalent slots share a signature
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function getSlotSignature(slot: AuctionSlot): string {
+  return stableStringify(slot);
+}
+
+export class AuctionCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttl: number;
+
+  constructor(ttl: number = DEFAULT_AUCTION_CACHE_TTL) {
+    this.ttl = ttl;
+  }
+
+  store(request: AuctionRequest, response: AuctionResponse, now: number = Date.now()): void {
+    request.auctions.forEach((slot, index) => {
+      const result = response.results[index];
+      // Only cache results that actually filled the slot
+      if (!result || result.error || result.winners.length === 0) return;
+      this.entries.set(getSlotSignature(slot), { result, storedAt: now });
+    });
+  }
+
+  /**
+   * Build a stale response from cached results, or null if any slot in
+   * the request has no fresh-enough entry.
+   */
+  getStale(request: AuctionRequest, now: number = Date.now()): AuctionResponse | null {
+    const results: AuctionResult[] = [];
+
+    for (const slot of request.auctions) {
+      const signature = getSlotSignature(slot);
+      const entry = this.entries.get(signature);
+      if (!entry) return null;
+      if (now - entry.storedAt > this.ttl) {
+        this.entries.delete(signature);
+        return null;
+      }
+      results.push({
+        ...entry.result,
+        stale: true,
+        winners: entry.result.winners.map(winner => ({ ...winner, billable: false })),
+      });
+    }
+
+    return { results };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling an endpoint that keeps failing. After `failureThreshold`
+ * consecutive failures the circuit opens and requests fail fast. Once
+ * `resetTimeoutMs` has passed a single probe request is let through
+ * (half-open): success closes the circuit, failure re-opens it.
+ */
+
+import type { CircuitState } from '../types/topsort';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 10000,
+};
+
+export class CircuitBreaker {
+  private options: Required<CircuitBreakerOptions>;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether a request may be sent now. Moving from open to half-open
+   * claims the single probe slot, so callers must report the outcome.
+   */
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open') {
+      if (now - this.openedAt < this.options.resetTimeoutMs) return false;
+      this.state = 'half-open';
+      this.probeInFlight = false;
+    }
+
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getState(now: number = Date.now()): CircuitState {
+    // Report half-open as soon as the probe would be allowed
+    if (this.state === 'open' && now - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+}
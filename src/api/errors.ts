@@ -0,0 +1,149 @@
+/**
+ * Topsort Errors
+ *
+ * Every failed call rejects with a TopsortError subclass that says what
+ * went wrong and whether sending the same request again could succeed.
+ * Retries, the auction circuit breaker and the event queue all go by the
+ * `retryable` flag instead of parsing messages.
+ */
+
+import type { TopsortErrorKind, ValidationIssue } from '../types/topsort';
+
+export class TopsortError extends Error {
+  readonly kind: TopsortErrorKind;
+  readonly endpoint: string;
+  readonly retryable: boolean;
+
+  constructor(
+    kind: TopsortErrorKind,
+    endpoint: string,
+    message: string,
+    retryable: boolean,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = 'TopsortError';
+    this.kind = kind;
+    this.endpoint = endpoint;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * No response within the client's timeout (or the remaining latency budget)
+ */
+export class TopsortTimeoutError extends TopsortError {
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super('timeout', endpoint, `Request timed out after ${Math.round(timeoutMs)}ms`, true);
+    this.name = 'TopsortTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The transport failed before any response arrived (offline, DNS, CORS)
+ */
+export class TopsortNetworkError extends TopsortError {
+  constructor(endpoint: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : 'Unknown error';
+    super('network', endpoint, `Network error: ${reason}`, true, { cause });
+    this.name = 'TopsortNetworkError';
+  }
+}
+
+// Worth repeating: the server may answer differently next time
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+/**
+ * The API answered with a non-2xx status. 408, 429 and 5xx are
+ * retryable; other 4xx mean the request itself has to change.
+ */
+export class TopsortHttpError extends TopsortError {
+  readonly status: number;
+  readonly body: unknown;        // Parsed JSON, or the raw text if it wasn't JSON
+  readonly retryAfterMs?: number;  // From the Retry-After header
+
+  constructor(endpoint: string, status: number, body: unknown, retryAfterMs?: number) {
+    const message = typeof body === 'object' && body !== null && 'message' in body && typeof body.message === 'string'
+      ? body.message
+      : `HTTP ${status}`;
+    super('http', endpoint, message, status >= 500 || RETRYABLE_STATUSES.has(status));
+    this.name = 'TopsortHttpError';
+    this.status = status;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * A payload failed schema validation: an outgoing request is rejected
+ * before it is sent, a malformed response once it arrives. A bad request
+ * will fail the same way again; a bad response is a server fault, so it
+ * is retryable like a 5xx (the server may have accepted the request).
+ */
+export class TopsortValidationError extends TopsortError {
+  readonly direction: 'request' | 'response';
+  readonly issues: ValidationIssue[];
+
+  constructor(endpoint: string, direction: 'request' | 'response', issues: ValidationIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    const detail = first.path ? `${first.path} ${first.message}` : first.message;
+    super('validation', endpoint, `Invalid ${endpoint} ${direction}: ${detail}${more}`, direction === 'response');
+    this.name = 'TopsortValidationError';
+    this.direction = direction;
+    this.issues = issues;
+  }
+}
+
+/**
+ * The client is holding requests back until a 429's Retry-After window
+ * ends, and this request could not wait that long
+ */
+export class TopsortThrottledError extends TopsortError {
+  readonly retryAfterMs: number;
+
+  constructor(endpoint: string, retryAfterMs: number) {
+    super('throttled', endpoint, `Rate limited: requests paused for ${Math.ceil(retryAfterMs / 1000)}s`, true);
+    this.name = 'TopsortThrottledError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The auction circuit breaker is open, so the request was never sent
+ */
+export class TopsortCircuitOpenError extends TopsortError {
+  constructor(endpoint: string) {
+    super('circuit-open', endpoint, 'Circuit breaker open: auction requests are paused', true);
+    this.name = 'TopsortCircuitOpenError';
+  }
+}
+
+/**
+ * An identity merge was held back because events for the anonymous ID
+ * are still queued (backing off or rate-limited); merging first would
+ * leave them under the anonymous ID once they are sent
+ */
+export class TopsortEventsPendingError extends TopsortError {
+  readonly pendingEvents: number;
+
+  constructor(endpoint: string, pendingEvents: number) {
+    super('events-pending', endpoint, `${pendingEvents} queued events for the anonymous ID must be sent first`, true);
+    this.name = 'TopsortEventsPendingError';
+    this.pendingEvents = pendingEvents;
+  }
+}
+
+export function isRateLimitError(error: unknown): error is TopsortHttpError {
+  return error instanceof TopsortHttpError && error.status === 429;
+}
+
+/**
+ * Errors that aren't TopsortErrors are unexpected, so they are retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof TopsortError ? error.retryable : true;
+}
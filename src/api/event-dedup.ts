@@ -0,0 +1,79 @@
+/**
+ * Client-side Event Deduplication
+ *
+ * Drops impressions and clicks that were already reported for the same
+ * bid and placement, e.g. when a product card remounts or a cached
+ * auction result is shown again. Once a bid has been reported viewable,
+ * further viewability measurements for it are dropped too. Impressions
+ * and clicks from a cached (non-billable) render are tracked apart, so
+ * they never use up the bid's billable ones. Keys are remembered per
+ * session with a bounded history.
+ */
+
+import type { EventsRequest } from '../types/topsort';
+
+const DEFAULT_MAX_KEYS = 5000;
+
+export function getDedupKey(type: 'impression' | 'click' | 'viewability', resolvedBidId: string, placementPath: string = ''): string {
+  return `${type}|${resolvedBidId}|${placementPath}`;
+}
+
+function withBillable(key: string, billable: boolean | undefined): string {
+  return billable === false ? `${key}|non-billable` : key;
+}
+
+export class EventDeduplicator {
+  // Insertion-ordered, so the oldest keys are evicted first
+  private seen = new Set<string>();
+  private maxKeys: number;
+
+  constructor(maxKeys: number = DEFAULT_MAX_KEYS) {
+    this.maxKeys = maxKeys;
+  }
+
+  /**
+   * Return only the events not reported before, and remember them.
+   * Purchases are passed through; they are deduplicated server-side by ID.
+   */
+  filter(events: EventsRequest): EventsRequest {
+    const result: EventsRequest = {};
+
+    if (events.impressions) {
+      result.impressions = events.impressions.filter(impression =>
+        this.claim(withBillable(getDedupKey('impression', impression.resolvedBidId, impression.placement.path), impression.billable))
+      );
+    }
+    if (events.clicks) {
+      result.clicks = events.clicks.filter(click =>
+        this.claim(withBillable(getDedupKey('click', click.resolvedBidId), click.billable))
+      );
+    }
+    if (events.purchases) {
+      result.purchases = events.purchases;
+    }
+    if (events.viewabilities) {
+      result.viewabilities = events.viewabilities.filter(viewability => {
+        const key = getDedupKey('viewability', viewability.resolvedBidId);
+        // Non-viewable measurements may repeat until the bid becomes viewable
+        return viewability.viewable ? this.claim(key) : !this.seen.has(key);
+      });
+    }
+
+    return result;
+  }
+
+  clear(): void {
+    this.seen.clear();
+  }
+
+  private claim(key: string): boolean {
+    if (this.seen.has(key)) return false;
+
+    this.seen.add(key);
+    if (this.seen.size > this.maxKeys) {
+      const oldest = this.seen.values().next().value;
+      if (oldest !== undefined) this.seen.delete(oldest);
+    }
+    return true;
+  }
+}
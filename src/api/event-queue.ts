@@ -0,0 +1,347 @@
+/**
+ * Persistent Event Queue
+ *
+ * Durable storage for events waiting to be sent to the Events API.
+ * Events survive reloads (localStorage), failed sends are retried with
+ * exponential backoff and jitter, and events that keep failing are moved
+ * to a dead-letter list instead of being retried forever. Ready events
+ * are split into request-sized batches by splitIntoBatches().
+ *
+ * Every tab on the origin shares the stored queue of a client with the
+ * same API key and base URL; clients for different ones keep separate
+ * queues (see getEventQueueStorageKey()). Each change re-reads
+ * storage and writes the result back, so one tab never overwrites
+ * another's events, and a tab claims the events it is sending for a
+ * lease period, so two tabs never send the same backlog.
+ */
+
+import type { EventsRequest } from '../types/topsort';
+
+export type QueuedEventKind = 'impressions' | 'clicks' | 'purchases' | 'viewabilities';
+
+type QueuedPayload<K extends QueuedEventKind> = NonNullable<EventsRequest[K]>[number];
+
+export type QueuedEvent = {
+  [K in QueuedEventKind]: {
+    kind: K;
+    payload: QueuedPayload<K>;
+    attempts: number;
+    enqueuedAt: number;
+    nextAttemptAt: number;
+    lastError?: string;
+    claimedUntil?: number;       // Being sent by some tab; lapses if it closed mid-send
+  };
+}[QueuedEventKind];
+
+export interface EventQueueOptions {
+  storageKey?: string;
+  maxAttempts?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  maxDeadLetters?: number;
+  claimLeaseMs?: number;         // How long other tabs leave claimed events alone
+}
+
+const DEFAULT_OPTIONS: Required<EventQueueOptions> = {
+  storageKey: 'topsort:event-queue:v1',
+  maxAttempts: 5,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 60000,
+  maxDeadLetters: 100,
+  claimLeaseMs: 30000,
+};
+
+/**
+ * Storage key for a client's queue, so a client never claims and sends
+ * another client's events with its own transport and API key
+ */
+export function getEventQueueStorageKey(baseUrl: string, apiKey: string): string {
+  return `${DEFAULT_OPTIONS.storageKey}:${baseUrl}:${apiKey}`;
+}
+
+interface StoredQueue {
+  pending: QueuedEvent[];
+  deadLetters: QueuedEvent[];
+}
+
+// null when there is no storage to share, as in Node
+function readStorage(key: string): StoredQueue | null {
+  let raw: string | null;
+  try {
+    if (typeof localStorage === 'undefined') return null;
+    raw = localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+  try {
+    if (!raw) return { pending: [], deadLetters: [] };
+    const parsed = JSON.parse(raw) as Partial<StoredQueue>;
+    return {
+      pending: Array.isArray(parsed.pending) ? parsed.pending : [],
+      deadLetters: Array.isArray(parsed.deadLetters) ? parsed.deadLetters : [],
+    };
+  } catch {
+    // Corrupt or inaccessible storage: start with an empty queue
+    return { pending: [], deadLetters: [] };
+  }
+}
+
+export function toEventsRequest(entries: QueuedEvent[]): EventsRequest {
+  const request: EventsRequest = {};
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'impressions':
+        (request.impressions ||= []).push(entry.payload);
+        break;
+      case 'clicks':
+        (request.clicks ||= []).push(entry.payload);
+        break;
+      case 'purchases':
+        (request.purchases ||= []).push(entry.payload);
+        break;
+      case 'viewabilities':
+        (request.viewabilities ||= []).push(entry.payload);
+        break;
+    }
+  }
+  return request;
+}
+
+const byteEncoder = new TextEncoder();
+
+function byteLength(value: unknown): number {
+  return byteEncoder.encode(JSON.stringify(value)).length;
+}
+
+/**
+ * Split entries into batches of at most `maxEvents` events whose
+ * toEventsRequest() body stays within `maxBytes`. Order is preserved. An
+ * event too large for any batch is sent on its own.
+ */
+export function splitIntoBatches(entries: QueuedEvent[], maxEvents: number, maxBytes: number): QueuedEvent[][] {
+  const batches: QueuedEvent[][] = [];
+  let batch: QueuedEvent[] = [];
+  let kinds = new Set<QueuedEventKind>();
+  let bytes = 2;                 // {}
+
+  // A new kind adds `"kind":[]` (plus a comma after the first kind); a
+  // further event of a kind adds a comma before it
+  const measure = (entry: QueuedEvent) =>
+    byteLength(entry.payload) +
+    (kinds.has(entry.kind) ? 1 : byteLength(entry.kind) + 3 + (kinds.size > 0 ? 1 : 0));
+
+  for (const entry of entries) {
+    if (batch.length > 0 && (batch.length >= maxEvents || bytes + measure(entry) > maxBytes)) {
+      batches.push(batch);
+      batch = [];
+      kinds = new Set();
+      bytes = 2;
+    }
+    bytes += measure(entry);
+    batch.push(entry);
+    kinds.add(entry.kind);
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+function isClaimed(entry: QueuedEvent, now: number): boolean {
+  return entry.claimedUntil !== undefined && entry.claimedUntil > now;
+}
+
+function release(entry: QueuedEvent): QueuedEvent {
+  const released = { ...entry };
+  delete released.claimedUntil;
+  return released;
+}
+
+export class PersistentEventQueue {
+  private options: Required<EventQueueOptions>;
+  private pending: QueuedEvent[] = [];
+  private deadLetters: QueuedEvent[] = [];
+  // Set once a write fails; from then on this tab keeps its queue in memory
+  private detached = false;
+
+  constructor(options: EventQueueOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.sync();
+  }
+
+  enqueue(events: EventsRequest): void {
+    const now = Date.now();
+    const kinds: QueuedEventKind[] = ['impressions', 'clicks', 'purchases', 'viewabilities'];
+
+    this.update(() => {
+      for (const kind of kinds) {
+        for (const payload of events[kind] || []) {
+          this.pending.push({ kind, payload, attempts: 0, enqueuedAt: now, nextAttemptAt: now } as QueuedEvent);
+        }
+      }
+    });
+  }
+
+  /**
+   * Claim events whose backoff has elapsed and that no tab is sending.
+   * Claimed events must be settled with ack(), fail(), defer() or
+   * deadLetter().
+   */
+  takeReady(now: number = Date.now()): QueuedEvent[] {
+    const ready: QueuedEvent[] = [];
+    this.update(() => {
+      const claimedUntil = now + this.options.claimLeaseMs;
+      this.pending = this.pending.map(entry => {
+        if (entry.nextAttemptAt > now || isClaimed(entry, now)) return entry;
+        const claimed = { ...entry, claimedUntil };
+        ready.push(claimed);
+        return claimed;
+      });
+    });
+    return ready;
+  }
+
+  ack(entries: QueuedEvent[]): void {
+    const ids = new Set(entries.map(entry => entry.payload.id));
+    this.update(() => {
+      this.pending = this.pending.filter(entry => !ids.has(entry.payload.id));
+    });
+  }
+
+  /**
+   * Schedule a retry for failed events, dead-lettering any that have
+   * used up their attempts.
+   */
+  fail(entries: QueuedEvent[], error: string, now: number = Date.now()): void {
+    const failed = new Set(entries.map(entry => entry.payload.id));
+    this.update(() => {
+      const stillPending: QueuedEvent[] = [];
+
+      for (const entry of this.pending) {
+        if (!failed.has(entry.payload.id)) {
+          stillPending.push(entry);
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        const updated = { ...release(entry), attempts, lastError: error, nextAttemptAt: now + this.getBackoff(attempts) };
+
+        if (attempts >= this.options.maxAttempts) {
+          this.deadLetters.push(updated);
+        } else {
+          stillPending.push(updated);
+        }
+      }
+
+      this.pending = stillPending;
+      this.deadLetters = this.deadLetters.slice(-this.options.maxDeadLetters);
+    });
+  }
+
+  /**
+   * Put claimed events back untouched, to be sent no earlier than
+   * `until`. Used while rate-limited, which is no fault of the events.
+   */
+  defer(entries: QueuedEvent[], until: number): void {
+    const deferred = new Set(entries.map(entry => entry.payload.id));
+    this.update(() => {
+      this.pending = this.pending.map(entry => (
+        deferred.has(entry.payload.id)
+          ? { ...release(entry), nextAttemptAt: Math.max(entry.nextAttemptAt, until) }
+          : entry
+      ));
+    });
+  }
+
+  /**
+   * Dead-letter events the server rejected outright; retrying them would
+   * only fail the same way.
+   */
+  deadLetter(entries: QueuedEvent[], error: string): void {
+    const rejected = new Set(entries.map(entry => entry.payload.id));
+    this.update(() => {
+      const deadLettered = this.pending
+        .filter(entry => rejected.has(entry.payload.id))
+        .map(entry => ({ ...release(entry), attempts: entry.attempts + 1, lastError: error }));
+      this.pending = this.pending.filter(entry => !rejected.has(entry.payload.id));
+      this.deadLetters = [...this.deadLetters, ...deadLettered].slice(-this.options.maxDeadLetters);
+    });
+  }
+
+  hasReady(now: number = Date.now()): boolean {
+    return this.countReady(now) > 0;
+  }
+
+  countReady(now: number = Date.now()): number {
+    this.sync();
+    return this.pending.filter(entry => entry.nextAttemptAt <= now && !isClaimed(entry, now)).length;
+  }
+
+  /**
+   * Events for this user that are still waiting to be sent, including
+   * ones being sent right now
+   */
+  countPendingFor(opaqueUserId: string): number {
+    this.sync();
+    return this.pending.filter(entry => entry.payload.opaqueUserId === opaqueUserId).length;
+  }
+
+  // As of the last read or write of the shared queue
+  get size(): number {
+    return this.pending.length;
+  }
+
+  get deadLetterCount(): number {
+    return this.deadLetters.length;
+  }
+
+  getDeadLetters(): QueuedEvent[] {
+    this.sync();
+    return [...this.deadLetters];
+  }
+
+  clearDeadLetters(): void {
+    this.update(() => {
+      this.deadLetters = [];
+    });
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half the delay is fixed, the
+   * other half random, so retries from many clients don't synchronize.
+   */
+  private getBackoff(attempts: number): number {
+    const exponential = Math.min(
+      this.options.maxBackoffMs,
+      this.options.baseBackoffMs * 2 ** (attempts - 1)
+    );
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+
+  // Pick up what other tabs wrote since this one last looked
+  private sync(): void {
+    if (this.detached) return;
+    const stored = readStorage(this.options.storageKey);
+    if (!stored) return;
+    this.pending = stored.pending;
+    this.deadLetters = stored.deadLetters;
+  }
+
+  // Read-modify-write, so changes made by other tabs are kept
+  private update(mutate: () => void): void {
+    this.sync();
+    mutate();
+    this.persist();
+  }
+
+  private persist(): void {
+    if (this.detached) return;
+    try {
+      if (typeof localStorage === 'undefined') return;
+      const stored: StoredQueue = { pending: this.pending, deadLetters: this.deadLetters };
+      localStorage.setItem(this.options.storageKey, JSON.stringify(stored));
+    } catch {
+      // Storage full or unavailable: the in-memory queue still works, but
+      // re-reading storage now would lose what couldn't be written
+      this.detached = true;
+    }
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Shopper Identity
+ *
+ * Provides the opaqueUserId stamped on every event. Shoppers start with a
+ * persisted anonymous ID; logging in switches to the known customer ID,
+ * and the anonymous ID is merged into it server-side so earlier ad
+ * interactions still count. Merges are persisted until the server has
+ * confirmed them, so a failed merge is retried rather than lost.
+ * Sessions rotate after a period of inactivity.
+ * The Events API has no session field, so sessions are client-side only.
+ */
+
+import type { IdentityMergeRequest } from '../types/topsort';
+
+export interface ShopperIdentity {
+  opaqueUserId: string;          // Known ID when logged in, otherwise anonymous
+  anonymousId: string;
+  userId?: string;               // Known customer ID
+  sessionId: string;
+  sessionStartedAt: number;
+}
+
+export interface IdentityOptions {
+  storageKey?: string;
+  sessionTimeoutMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<IdentityOptions> = {
+  storageKey: 'topsort:identity:v1',
+  sessionTimeoutMs: 30 * 60 * 1000,
+};
+
+interface StoredIdentity {
+  anonymousId: string;
+  userId?: string;
+  sessionId: string;
+  sessionStartedAt: number;
+  lastActivityAt: number;
+  pendingMerges: IdentityMergeRequest[];  // Oldest first; kept across logins and logouts
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
+
+function createStoredIdentity(now: number, pendingMerges: IdentityMergeRequest[] = []): StoredIdentity {
+  return {
+    anonymousId: generateId('anon'),
+    sessionId: generateId('sess'),
+    sessionStartedAt: now,
+    lastActivityAt: now,
+    pendingMerges,
+  };
+}
+
+function isMergeRequest(value: unknown): value is IdentityMergeRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const { anonymousId, opaqueUserId } = value as Partial<IdentityMergeRequest>;
+  return typeof anonymousId === 'string' && typeof opaqueUserId === 'string';
+}
+
+function readStorage(key: string): StoredIdentity | null {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<StoredIdentity>;
+    if (typeof parsed.anonymousId !== 'string' || typeof parsed.sessionId !== 'string') return null;
+    return {
+      anonymousId: parsed.anonymousId,
+      userId: typeof parsed.userId === 'string' ? parsed.userId : undefined,
+      sessionId: parsed.sessionId,
+      sessionStartedAt: parsed.sessionStartedAt ?? 0,
+      lastActivityAt: parsed.lastActivityAt ?? 0,
+      pendingMerges: Array.isArray(parsed.pendingMerges) ? parsed.pendingMerges.filter(isMergeRequest) : [],
+    };
+  } catch {
+    // Corrupt or inaccessible storage: start a fresh identity
+    return null;
+  }
+}
+
+export class IdentityManager {
+  private options: Required<IdentityOptions>;
+  private stored: StoredIdentity;
+
+  constructor(options: IdentityOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.stored = readStorage(this.options.storageKey) ?? createStoredIdentity(Date.now());
+    this.persist();
+  }
+
+  /**
+   * Current identity without counting as activity
+   */
+  getIdentity(): ShopperIdentity {
+    const { anonymousId, userId, sessionId, sessionStartedAt } = this.stored;
+    return { opaqueUserId: userId ?? anonymousId, anonymousId, userId, sessionId, sessionStartedAt };
+  }
+
+  /**
+   * Record shopper activity, starting a new session if the previous one
+   * has been idle longer than the session timeout.
+   */
+  touch(now: number = Date.now()): ShopperIdentity {
+    if (now - this.stored.lastActivityAt > this.options.sessionTimeoutMs) {
+      this.stored.sessionId = generateId('sess');
+      this.stored.sessionStartedAt = now;
+    }
+    this.stored.lastActivityAt = now;
+    this.persist();
+    return this.getIdentity();
+  }
+
+  /**
+   * Switch to a known customer ID. Logging in from an anonymous identity
+   * queues a merge of the anonymous ID into the customer (see
+   * getPendingMerges()). Switching straight from another customer issues
+   * a new anonymous ID and session, as logOut() does, with nothing to
+   * merge, since the current anonymous ID belongs to the previous one.
+   */
+  logIn(userId: string, now: number = Date.now()): ShopperIdentity {
+    if (this.stored.userId === userId) return this.getIdentity();
+    if (this.stored.userId !== undefined) {
+      this.stored = { ...createStoredIdentity(now, this.stored.pendingMerges), userId };
+    } else {
+      this.stored.userId = userId;
+      this.stored.pendingMerges = [
+        ...this.stored.pendingMerges,
+        { anonymousId: this.stored.anonymousId, opaqueUserId: userId },
+      ];
+    }
+    this.persist();
+    return this.getIdentity();
+  }
+
+  /**
+   * Merges not yet confirmed by the server, oldest first
+   */
+  getPendingMerges(): IdentityMergeRequest[] {
+    return [...this.stored.pendingMerges];
+  }
+
+  completeMerge(request: IdentityMergeRequest): void {
+    this.stored.pendingMerges = this.stored.pendingMerges.filter(merge => (
+      merge.anonymousId !== request.anonymousId || merge.opaqueUserId !== request.opaqueUserId
+    ));
+    this.persist();
+  }
+
+  /**
+   * Forget the known customer. A new anonymous ID and session are issued
+   * so later activity isn't tied to the previous customer. Pending merges
+   * are kept.
+   */
+  logOut(now: number = Date.now()): ShopperIdentity {
+    this.stored = createStoredIdentity(now, this.stored.pendingMerges);
+    this.persist();
+    return this.getIdentity();
+  }
+
+  private persist(): void {
+    try {
+      if (typeof localStorage === 'undefined') return;
+      localStorage.setItem(this.options.storageKey, JSON.stringify(this.stored));
+    } catch {
+      // Storage full or unavailable: the identity lasts for this page load
+    }
+  }
+}
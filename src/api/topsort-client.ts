@@ -6,17 +6,83 @@
  * - Type-safe request/response handling
  * - Error handling and retry logic
  * - Request/response logging for debugging
- * - Event batching for performance
+ * - Configurable event batching, split into size-limited requests
+ * - Durable event queue that survives reloads and offline periods
+ * - Auction retries within a latency budget, guarded by a circuit breaker
+ * - Stale-auction fallback from a short-TTL cache when auctions fail
+ * - Impression/click/viewability deduplication per bid and placement
+ * - Server-side attribution reports
+ * - Merging anonymous shopper history into a known ID on login
+ * - Pluggable transports (fetch, in-memory mock, recording/replay)
+ * - Runtime schema validation of outgoing events and every response
+ * - Typed errors (timeout, network, HTTP, validation) with a retryable flag
+ * - Rate-limit handling: auctions and event flushes pause for Retry-After
  */
 
 import type {
+  AttributionReport,
+  AttributionReportRequest,
   AuctionRequest,
   AuctionResponse,
   EventsRequest,
   EventResponse,
+  IdentityMergeRequest,
+  IdentityMergeResponse,
   IntegrationStatus,
   ApiError,
+  Purchase,
+  PurchaseItem,
+  ViewabilityReport,
 } from '../types/topsort';
+import {
+  PersistentEventQueue,
+  getEventQueueStorageKey,
+  splitIntoBatches,
+  toEventsRequest,
+  type EventQueueOptions,
+  type QueuedEvent,
+} from './event-queue';
+import { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import { AuctionCache, DEFAULT_AUCTION_CACHE_TTL } from './auction-cache';
+import { EventDeduplicator } from './event-dedup';
+import { FetchTransport, type Transport, type TransportMethod, type TransportResponse } from './transport';
+import {
+  TopsortCircuitOpenError,
+  TopsortEventsPendingError,
+  TopsortError,
+  TopsortHttpError,
+  TopsortNetworkError,
+  TopsortThrottledError,
+  TopsortTimeoutError,
+  TopsortValidationError,
+  isRateLimitError,
+  isRetryableError,
+} from './errors';
+import {
+  attributionReportSchema,
+  auctionRequestSchema,
+  auctionResponseSchema,
+  eventResponsesSchema,
+  identityMergeResponseSchema,
+  partitionEvents,
+  validate,
+  viewabilityReportSchema,
+  type Schema,
+} from './validation';
+
+export interface RetryPolicy {
+  maxAttempts?: number;          // Including the first attempt
+  baseDelayMs?: number;          // Backoff before the first retry, doubled each time
+  maxDelayMs?: number;
+  latencyBudgetMs?: number;      // Total time allowed across all attempts
+}
+
+export interface BatchingOptions {
+  flushIntervalMs?: number;
+  maxBatchEvents?: number;       // Events per /events request
+  maxBatchBytes?: number;        // Request body size; larger batches are split
+  flushThreshold?: number;       // Flush as soon as this many events are ready (0 = interval only)
+}
 
 export interface TopsortConfig {
   apiKey: string;
@@ -25,15 +91,84 @@ export interface TopsortConfig {
   onRequest?: (endpoint: string, data: unknown) => void;
   onResponse?: (endpoint: string, data: unknown, duration: number) => void;
   onError?: (error: ApiError) => void;
+  eventQueue?: EventQueueOptions;
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerOptions;
+  auctionCacheTtl?: number;      // How long a result may be served stale (ms)
+  batching?: BatchingOptions;
+  transport?: Transport;         // Defaults to fetch
 }
 
 const DEFAULT_BASE_URL = 'https://api.topsort.com/v2';
 const DEFAULT_TIMEOUT = 5000;
+// Pause after a 429 that doesn't say for how long
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+const DEFAULT_BATCHING: Required<BatchingOptions> = {
+  flushIntervalMs: 2000,
+  maxBatchEvents: 100,
+  maxBatchBytes: 64 * 1024,      // Also the keepalive body limit for page-hide flushes
+  flushThreshold: 100,
+};
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  latencyBudgetMs: 3000,
+};
+
+/**
+ * Purchases credit bids per item. A legacy order-level resolvedBidId on a
+ * single-item purchase is moved onto the item; empty item bids are dropped.
+ */
+function normalizePurchase(purchase: Purchase): Purchase {
+  const items = purchase.items.map(({ resolvedBidId, ...item }): PurchaseItem => (
+    resolvedBidId ? { ...item, resolvedBidId } : item
+  ));
+
+  if (purchase.resolvedBidId && items.length === 1 && !items[0].resolvedBidId) {
+    const { resolvedBidId, ...rest } = purchase;
+    return { ...rest, items: [{ ...items[0], resolvedBidId }] };
+  }
+  return { ...purchase, items };
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (value === undefined) return undefined;
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function parseHeaderCount(value: string | undefined): number | null {
+  const count = Number(value);
+  return value !== undefined && value.trim() !== '' && Number.isFinite(count) ? count : null;
+}
+
+function parseJson<T>(text: string): T | null {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
 
 export class TopsortClient {
   private config: Required<TopsortConfig>;
   private status: IntegrationStatus;
-  private pendingEvents: EventsRequest = {};
+  private eventQueue: PersistentEventQueue;
+  private retryPolicy: Required<RetryPolicy>;
+  private batching: Required<BatchingOptions>;
+  private auctionBreaker: CircuitBreaker;
+  private auctionCache: AuctionCache;
+  private deduplicator = new EventDeduplicator();
+  // Epoch ms until which auctions and event flushes are held back (429)
+  private throttledUntil = 0;
   private flushInterval: ReturnType<typeof setInterval> | null = null;
 
   constructor(config: TopsortConfig) {
@@ -43,124 +178,316 @@ export class TopsortClient {
       onRequest: () => {},
       onResponse: () => {},
       onError: () => {},
+      eventQueue: {},
+      retry: {},
+      circuitBreaker: {},
+      auctionCacheTtl: DEFAULT_AUCTION_CACHE_TTL,
+      batching: {},
+      transport: new FetchTransport(),
       ...config,
     };
 
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...this.config.retry };
+    this.batching = { ...DEFAULT_BATCHING, ...this.config.batching };
+    this.auctionBreaker = new CircuitBreaker(this.config.circuitBreaker);
+    this.auctionCache = new AuctionCache(this.config.auctionCacheTtl);
+
     this.status = {
       apiHealth: 'healthy',
+      circuitState: 'closed',
       lastAuctionCall: null,
       lastEventSent: null,
       auctionSuccessRate: 100,
       eventsSentToday: 0,
+      queuedEvents: 0,
+      deadLetterEvents: 0,
+      staleAuctionServes: 0,
+      throttledUntil: null,
+      throttledResponses: 0,
+      rateLimitLimit: null,
+      rateLimitRemaining: null,
       errors: [],
     };
 
-    // Start event batching (flush every 2 seconds)
+    // Restore events left over from a previous page load
+    this.eventQueue = new PersistentEventQueue({
+      storageKey: getEventQueueStorageKey(this.config.baseUrl, this.config.apiKey),
+      ...this.config.eventQueue,
+    });
+
+    // Start event batching (flush every flushIntervalMs)
     this.startEventBatching();
+    this.addLifecycleListeners();
   }
 
   /**
    * Create an auction to get sponsored product placements
    * Matches documented API: topsortClient.createAuction()
+   *
+   * Auctions are idempotent, so retryable failures are retried with
+   * backoff as long as the latency budget allows. While the circuit
+   * breaker is open, calls fail immediately without reaching the API. If
+   * every attempt fails, the last cached result for the same slots is
+   * served instead (flagged stale, winners non-billable) when one exists.
+   * Malformed requests are rejected before reaching the API. While
+   * rate-limited, auctions wait out Retry-After if the budget allows.
    */
   async createAuction(request: AuctionRequest): Promise<AuctionResponse> {
     const startTime = Date.now();
     const endpoint = '/auctions';
+    const { maxAttempts, latencyBudgetMs } = this.retryPolicy;
 
     this.config.onRequest(endpoint, request);
 
-    try {
-      const response = await this.fetch<AuctionResponse>(endpoint, {
-        method: 'POST',
-        body: JSON.stringify(request),
-      });
-
-      this.status.lastAuctionCall = new Date();
-      this.updateSuccessRate(true);
-      this.config.onResponse(endpoint, response, Date.now() - startTime);
-
-      return response;
-    } catch (error) {
-      this.updateSuccessRate(false);
+    const requestIssues = validate(auctionRequestSchema, request);
+    if (requestIssues.length > 0) {
+      const error = new TopsortValidationError(endpoint, 'request', requestIssues);
       this.handleError(endpoint, error);
       throw error;
     }
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const throttleWait = this.throttledUntil - Date.now();
+      if (throttleWait > 0) {
+        if (Date.now() - startTime + throttleWait >= latencyBudgetMs) {
+          lastError = new TopsortThrottledError(endpoint, throttleWait);
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, throttleWait));
+      }
+
+      if (!this.auctionBreaker.canRequest()) {
+        lastError = new TopsortCircuitOpenError(endpoint);
+        break;
+      }
+
+      const remainingBudget = latencyBudgetMs - (Date.now() - startTime);
+      try {
+        const response = await this.request(endpoint, {
+          method: 'POST',
+          body: JSON.stringify(request),
+        }, auctionResponseSchema, Math.min(this.config.timeout, remainingBudget));
+
+        this.auctionBreaker.recordSuccess();
+        this.auctionCache.store(request, response);
+        this.status.lastAuctionCall = new Date();
+        this.updateSuccessRate(true);
+        this.config.onResponse(endpoint, response, Date.now() - startTime);
+
+        return response;
+      } catch (error) {
+        lastError = error;
+        if (!isRetryableError(error)) {
+          // The API answered; sending the same request again won't help
+          this.auctionBreaker.recordSuccess();
+          break;
+        }
+        if (isRateLimitError(error)) {
+          // Throttling isn't an outage, so it doesn't trip the breaker
+          this.auctionBreaker.recordSuccess();
+        } else {
+          this.auctionBreaker.recordFailure();
+        }
+
+        const delay = Math.max(this.getRetryDelay(attempt), this.throttledUntil - Date.now());
+        const canRetry =
+          attempt < maxAttempts &&
+          Date.now() - startTime + delay < latencyBudgetMs;
+        if (!canRetry) break;
+
+        const apiError = this.toApiError(endpoint, error);
+        this.config.onError({
+          ...apiError,
+          message: `${apiError.message} (attempt ${attempt} of ${maxAttempts}, retrying in ${Math.round(delay)}ms)`,
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    this.updateSuccessRate(false);
+    this.handleError(endpoint, lastError);
+
+    const staleResponse = this.auctionCache.getStale(request);
+    if (staleResponse) {
+      this.status.staleAuctionServes++;
+      this.config.onResponse(endpoint, staleResponse, Date.now() - startTime);
+      return staleResponse;
+    }
+
+    throw lastError;
   }
 
   /**
    * Report events to Topsort
    * Matches documented API: topsortClient.reportEvent({ impressions, clicks, purchases })
+   *
+   * Impressions and clicks on a winner served from the stale cache
+   * (`winner.billable === false`) should carry `billable: false`, so its
+   * campaign isn't charged for that render.
    */
-  reportEvent(events: EventsRequest): void {
-    // Merge incoming events with pending events
-    if (events.impressions) {
-      this.pendingEvents.impressions = [
-        ...(this.pendingEvents.impressions || []),
-        ...events.impressions,
-      ];
-    }
-    if (events.clicks) {
-      this.pendingEvents.clicks = [
-        ...(this.pendingEvents.clicks || []),
-        ...events.clicks,
-      ];
+  reportEvent(events: EventsRequest): EventsRequest {
+    // Malformed events are never queued; each offending field is reported
+    const { valid, issues } = partitionEvents({
+      ...events,
+      ...(events.purchases ? { purchases: events.purchases.map(normalizePurchase) } : {}),
+    });
+    if (issues.length > 0) {
+      this.handleError('/events', new TopsortValidationError('/events', 'request', issues));
     }
-    if (events.purchases) {
-      this.pendingEvents.purchases = [
-        ...(this.pendingEvents.purchases || []),
-        ...events.purchases,
-      ];
+
+    // Returns the events actually queued, after dropping duplicates
+    const accepted = this.deduplicator.filter(valid);
+    this.eventQueue.enqueue(accepted);
+
+    const { flushThreshold } = this.batching;
+    if (flushThreshold > 0 && !this.isThrottled() && this.eventQueue.countReady() >= flushThreshold) {
+      this.flushEvents().catch(() => {
+        // Error already handled in flushEvents
+      });
     }
+    return accepted;
   }
 
   /**
-   * Immediately flush all queued events
+   * Immediately flush all queued events that are due for (re)delivery,
+   * split into batches within the configured event and byte limits. Each
+   * batch succeeds or fails on its own; if any failed, this rejects with
+   * the first error once every batch has been tried. Nothing is sent
+   * while rate-limited; events stay queued until then.
    */
   async flushEvents(): Promise<EventResponse[]> {
-    const hasEvents =
-      (this.pendingEvents.impressions?.length || 0) > 0 ||
-      (this.pendingEvents.clicks?.length || 0) > 0 ||
-      (this.pendingEvents.purchases?.length || 0) > 0;
+    if (this.isThrottled()) return [];
 
-    if (!hasEvents) return [];
+    const entries = this.eventQueue.takeReady();
+    if (entries.length === 0) return [];
 
-    const eventsToSend = { ...this.pendingEvents };
-    this.pendingEvents = {};
+    const { maxBatchEvents, maxBatchBytes } = this.batching;
+    const batches = splitIntoBatches(entries, maxBatchEvents, maxBatchBytes);
+    const responses: EventResponse[] = [];
+    let firstError: unknown;
 
+    for (const [index, batch] of batches.entries()) {
+      // A 429 on an earlier batch holds back the rest
+      if (this.isThrottled()) {
+        this.eventQueue.defer(batches.slice(index).flat(), this.throttledUntil);
+        break;
+      }
+      try {
+        responses.push(...await this.sendEventBatch(batch));
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (firstError !== undefined) throw firstError;
+    return responses;
+  }
+
+  /**
+   * Merge an anonymous shopper's events into a known opaqueUserId, so
+   * ads seen before login still get credit for purchases after it.
+   * Events due for delivery are flushed first so they merge too. If any
+   * events for the anonymous ID are still queued afterwards (backing off
+   * or rate-limited), this rejects with a retryable
+   * TopsortEventsPendingError without calling the API; retry once they
+   * have been sent.
+   */
+  async mergeIdentity(request: IdentityMergeRequest): Promise<IdentityMergeResponse> {
+    await this.flushEvents().catch(() => {
+      // Error already handled in flushEvents; pending events are checked below
+    });
+
+    const endpoint = '/identities/merge';
     const startTime = Date.now();
-    const endpoint = '/events';
 
-    this.config.onRequest(endpoint, eventsToSend);
+    const pendingEvents = this.eventQueue.countPendingFor(request.anonymousId);
+    if (pendingEvents > 0) {
+      const error = new TopsortEventsPendingError(endpoint, pendingEvents);
+      this.handleError(endpoint, error);
+      throw error;
+    }
 
-    const eventCount =
-      (eventsToSend.impressions?.length || 0) +
-      (eventsToSend.clicks?.length || 0) +
-      (eventsToSend.purchases?.length || 0);
+    this.config.onRequest(endpoint, request);
 
     try {
-      const response = await this.fetch<EventResponse[]>(endpoint, {
+      const response = await this.request(endpoint, {
         method: 'POST',
-        body: JSON.stringify(eventsToSend),
-      });
-
-      this.status.lastEventSent = new Date();
-      this.status.eventsSentToday += eventCount;
+        body: JSON.stringify(request),
+      }, identityMergeResponseSchema);
       this.config.onResponse(endpoint, response, Date.now() - startTime);
-
       return response;
     } catch (error) {
-      // Re-queue events on failure
-      this.reportEvent(eventsToSend);
       this.handleError(endpoint, error);
       throw error;
     }
   }
 
+  /**
+   * Fetch the attribution the server computed from reported events.
+   * Omitted options use the server's default model and lookback windows.
+   */
+  async getAttributionReport(options: AttributionReportRequest = {}): Promise<AttributionReport> {
+    const params = new URLSearchParams();
+    if (options.model) params.set('model', options.model);
+    if (options.clickLookbackDays !== undefined) params.set('clickLookbackDays', String(options.clickLookbackDays));
+    if (options.viewLookbackDays !== undefined) params.set('viewLookbackDays', String(options.viewLookbackDays));
+
+    const query = params.toString();
+    const endpoint = `/reports/attribution${query ? `?${query}` : ''}`;
+    const startTime = Date.now();
+
+    this.config.onRequest(endpoint, options);
+
+    try {
+      const report = await this.request(endpoint, { method: 'GET' }, attributionReportSchema);
+      this.config.onResponse(endpoint, report, Date.now() - startTime);
+      return report;
+    } catch (error) {
+      this.handleError(endpoint, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch viewable-impression rates aggregated from reported events
+   */
+  async getViewabilityReport(): Promise<ViewabilityReport> {
+    const endpoint = '/reports/viewability';
+    const startTime = Date.now();
+
+    this.config.onRequest(endpoint, {});
+
+    try {
+      const report = await this.request(endpoint, { method: 'GET' }, viewabilityReportSchema);
+      this.config.onResponse(endpoint, report, Date.now() - startTime);
+      return report;
+    } catch (error) {
+      this.handleError(endpoint, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Events that exhausted their retry attempts
+   */
+  getDeadLetterEvents(): QueuedEvent[] {
+    return this.eventQueue.getDeadLetters();
+  }
+
   /**
    * Get current integration status
    */
   getStatus(): IntegrationStatus {
-    return { ...this.status };
+    const circuitState = this.auctionBreaker.getState();
+    return {
+      ...this.status,
+      throttledUntil: this.isThrottled() ? new Date(this.throttledUntil) : null,
+      circuitState,
+      apiHealth: this.getApiHealth(circuitState),
+      queuedEvents: this.eventQueue.size,
+      deadLetterEvents: this.eventQueue.deadLetterCount,
+    };
   }
 
   /**
@@ -171,54 +498,222 @@ export class TopsortClient {
   }
 
   /**
-   * Cleanup resources
+   * Cleanup resources. Queued events stay persisted for the next client.
    */
   destroy(): void {
     if (this.flushInterval) {
       clearInterval(this.flushInterval);
       this.flushInterval = null;
     }
+    this.removeLifecycleListeners();
   }
 
-  private async fetch<T>(endpoint: string, options: RequestInit): Promise<T> {
+  private async sendEventBatch(entries: QueuedEvent[], keepalive: boolean = false): Promise<EventResponse[]> {
+    const eventsToSend = toEventsRequest(entries);
+    const startTime = Date.now();
+    const endpoint = '/events';
+
+    this.config.onRequest(endpoint, eventsToSend);
+
+    try {
+      const response = await this.request(endpoint, {
+        method: 'POST',
+        body: JSON.stringify(eventsToSend),
+        keepalive,
+      }, eventResponsesSchema);
+
+      this.eventQueue.ack(entries);
+      this.status.lastEventSent = new Date();
+      // Events the server already had (e.g. from an earlier retry) aren't new
+      this.status.eventsSentToday += response.filter(r => r.status !== 'duplicate').length;
+      this.config.onResponse(endpoint, response, Date.now() - startTime);
+
+      return response;
+    } catch (error) {
+      this.handleError(endpoint, error);
+
+      // Keep events queued and retry them after a backoff, unless the
+      // server rejected the batch itself
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      if (isRateLimitError(error)) {
+        this.eventQueue.defer(entries, this.throttledUntil);
+      } else if (isRetryableError(error)) {
+        this.eventQueue.fail(entries, reason);
+      } else if (entries.length > 1) {
+        return this.sendBatchHalves(entries, keepalive);
+      } else {
+        this.eventQueue.deadLetter(entries, reason);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resend a rejected batch as two halves, so one bad event doesn't take
+   * the valid ones down with it. Halves are split again until only the
+   * events the server rejects on their own are dead-lettered. Rejects
+   * with the first error if any half failed.
+   */
+  private async sendBatchHalves(entries: QueuedEvent[], keepalive: boolean): Promise<EventResponse[]> {
+    const middle = Math.ceil(entries.length / 2);
+    const responses: EventResponse[] = [];
+    let firstError: unknown;
+
+    for (const half of [entries.slice(0, middle), entries.slice(middle)]) {
+      try {
+        responses.push(...await this.sendEventBatch(half, keepalive));
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (firstError !== undefined) throw firstError;
+    return responses;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: { method: TransportMethod; body?: string; keepalive?: boolean },
+    schema: Schema<T>,
+    timeout: number = this.config.timeout
+  ): Promise<T> {
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
 
+    let response: TransportResponse;
     try {
-      const response = await fetch(`${this.config.baseUrl}${endpoint}`, {
+      response = await this.config.transport.send({
         ...options,
+        url: `${this.config.baseUrl}${endpoint}`,
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.config.apiKey}`,
-          ...options.headers,
         },
         signal: controller.signal,
       });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}));
-        throw new Error(error.message || `HTTP ${response.status}`);
-      }
-
-      return response.json();
+    } catch (error) {
+      if (controller.signal.aborted) throw new TopsortTimeoutError(endpoint, timeout);
+      throw new TopsortNetworkError(endpoint, error);
     } finally {
       clearTimeout(timeoutId);
     }
+
+    const retryAfterMs = this.updateRateLimit(response);
+    if (response.status < 200 || response.status >= 300) {
+      throw new TopsortHttpError(endpoint, response.status, parseJson(response.body) ?? response.body, retryAfterMs);
+    }
+
+    const data: unknown = parseJson(response.body);
+    const issues = validate(schema, data);
+    if (issues.length > 0) {
+      throw new TopsortValidationError(endpoint, 'response', issues);
+    }
+    return data as T;
+  }
+
+  /**
+   * Track the RateLimit-* headers, and hold requests back for the
+   * Retry-After of a 429 (or of a 503 that sends one). Returns the
+   * Retry-After delay, if any.
+   */
+  private updateRateLimit({ status, headers }: TransportResponse): number | undefined {
+    const limit = parseHeaderCount(headers['ratelimit-limit']);
+    const remaining = parseHeaderCount(headers['ratelimit-remaining']);
+    if (limit !== null) this.status.rateLimitLimit = limit;
+    if (remaining !== null) this.status.rateLimitRemaining = remaining;
+
+    const retryAfterMs = parseRetryAfter(headers['retry-after']);
+    if (status === 429) this.status.throttledResponses++;
+    if (status === 429 || (status === 503 && retryAfterMs !== undefined)) {
+      const pauseMs = retryAfterMs ?? DEFAULT_RETRY_AFTER_MS;
+      this.throttledUntil = Math.max(this.throttledUntil, Date.now() + pauseMs);
+    }
+    return retryAfterMs;
+  }
+
+  private isThrottled(now: number = Date.now()): boolean {
+    return now < this.throttledUntil;
   }
 
   private startEventBatching(): void {
     this.flushInterval = setInterval(() => {
-      const hasEvents =
-        (this.pendingEvents.impressions?.length || 0) > 0 ||
-        (this.pendingEvents.clicks?.length || 0) > 0 ||
-        (this.pendingEvents.purchases?.length || 0) > 0;
-
-      if (hasEvents) {
+      if (this.eventQueue.hasReady() && !this.isThrottled()) {
         this.flushEvents().catch(() => {
           // Error already handled in flushEvents
         });
       }
-    }, 2000);
+    }, this.batching.flushIntervalMs);
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.flushOnPageHide();
+    }
+  };
+
+  private handlePageHide = (): void => {
+    this.flushOnPageHide();
+  };
+
+  private handleOnline = (): void => {
+    this.flushEvents().catch(() => {
+      // Error already handled in flushEvents
+    });
+  };
+
+  private addLifecycleListeners(): void {
+    if (typeof window === 'undefined') return;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('pagehide', this.handlePageHide);
+    window.addEventListener('online', this.handleOnline);
+  }
+
+  private removeLifecycleListeners(): void {
+    if (typeof window === 'undefined') return;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    window.removeEventListener('online', this.handleOnline);
+  }
+
+  /**
+   * Send queued events with keepalive requests while the page is being
+   * hidden or unloaded, so they can complete after it is gone. Batches are
+   * split like regular flushes and, like them, carry the API key and are
+   * only removed from the queue after a 2xx response. If the page is gone
+   * before the response arrives, the events are still persisted and are
+   * sent again on the next load; the server drops them as duplicates.
+   */
+  private flushOnPageHide(): void {
+    if (this.isThrottled()) return;
+
+    const entries = this.eventQueue.takeReady();
+    if (entries.length === 0) return;
+
+    const { maxBatchEvents, maxBatchBytes } = this.batching;
+    for (const batch of splitIntoBatches(entries, maxBatchEvents, maxBatchBytes)) {
+      this.sendEventBatch(batch, true).catch(() => {
+        // Error already handled in sendEventBatch
+      });
+    }
+  }
+
+  private getRetryDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    // Equal jitter, same as the event queue backoff
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+
+  /**
+   * The circuit breaker takes precedence: open means auctions are not
+   * being attempted at all, half-open means a recovery probe is pending.
+   */
+  private getApiHealth(circuitState: IntegrationStatus['circuitState']): IntegrationStatus['apiHealth'] {
+    if (circuitState === 'open') return 'down';
+    if (circuitState === 'half-open' || this.isThrottled()) return 'degraded';
+    if (this.status.auctionSuccessRate < 50) return 'down';
+    if (this.status.auctionSuccessRate < 80) return 'degraded';
+    return 'healthy';
   }
 
   private updateSuccessRate(success: boolean): void {
@@ -229,22 +724,23 @@ export class TopsortClient {
       this.status.auctionSuccessRate * (1 - weight) + newValue * weight;
   }
 
-  private handleError(endpoint: string, error: unknown): void {
-    const apiError: ApiError = {
+  private toApiError(endpoint: string, error: unknown): ApiError {
+    return {
       timestamp: new Date(),
       endpoint,
       message: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof TopsortError ? { kind: error.kind, retryable: error.retryable } : {}),
+      ...(error instanceof TopsortHttpError ? { statusCode: error.status } : {}),
+      ...(error instanceof TopsortValidationError ? { validationIssues: error.issues } : {}),
     };
+  }
+
+  private handleError(endpoint: string, error: unknown): void {
+    const apiError = this.toApiError(endpoint, error);
 
     this.status.errors.unshift(apiError);
     this.status.errors = this.status.errors.slice(0, 10); // Keep last 10 errors
 
-    if (this.status.auctionSuccessRate < 50) {
-      this.status.apiHealth = 'down';
-    } else if (this.status.auctionSuccessRate < 80) {
-      this.status.apiHealth = 'degraded';
-    }
-
     this.config.onError(apiError);
   }
 }
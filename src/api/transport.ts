@@ -0,0 +1,125 @@
+/**
+ * Transports
+ *
+ * TopsortClient sends every request through a Transport instead of the
+ * global fetch, so each client can talk to its own backend: the real API
+ * over fetch, the in-memory mock server, or a replay of
+ * previously recorded traffic. Nothing here touches globals, so clients
+ * also run in Node and in workers.
+ */
+
+export type TransportMethod = 'GET' | 'POST';
+
+export interface TransportRequest {
+  method: TransportMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;          // Aborted when the client's timeout expires
+  keepalive?: boolean;           // Outlive the page, for flushes while it unloads
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>;  // Lower-case names, e.g. 'retry-after'
+  body: string;                  // Raw response body, JSON for every Topsort endpoint
+}
+
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export interface FetchTransportOptions {
+  fetch?: typeof fetch;
+}
+
+export class FetchTransport implements Transport {
+  private fetchImpl: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async send({ method, url, headers, body, signal, keepalive }: TransportRequest): Promise<TransportResponse> {
+    // keepalive rather than sendBeacon, which can't send the Authorization header
+    const response = await this.fetchImpl(url, { method, headers, body, signal, keepalive });
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      responseHeaders[name.toLowerCase()] = value;
+    });
+    return { status: response.status, headers: responseHeaders, body: await response.text() };
+  }
+}
+
+export interface RecordedExchange {
+  method: TransportMethod;
+  url: string;
+  requestBody?: string;
+  status: number;
+  responseHeaders?: Record<string, string>;
+  responseBody: string;
+}
+
+/**
+ * Passes requests to another transport and keeps every completed
+ * exchange, e.g. to capture a session for ReplayTransport
+ */
+export class RecordingTransport implements Transport {
+  private exchanges: RecordedExchange[] = [];
+  private inner: Transport;
+
+  constructor(inner: Transport) {
+    this.inner = inner;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.inner.send(request);
+    this.exchanges.push({
+      method: request.method,
+      url: request.url,
+      requestBody: request.body,
+      status: response.status,
+      responseHeaders: response.headers,
+      responseBody: response.body,
+    });
+    return response;
+  }
+
+  getRecordings(): RecordedExchange[] {
+    return [...this.exchanges];
+  }
+
+  clear(): void {
+    this.exchanges = [];
+  }
+}
+
+/**
+ * Answers requests from recorded exchanges. Request bodies carry fresh
+ * IDs and timestamps, so exchanges are matched on method and URL only,
+ * in the order they were recorded.
+ */
+export class ReplayTransport implements Transport {
+  private pending = new Map<string, RecordedExchange[]>();
+
+  constructor(recordings: RecordedExchange[]) {
+    for (const exchange of recordings) {
+      const key = `${exchange.method} ${exchange.url}`;
+      this.pending.set(key, [...(this.pending.get(key) ?? []), exchange]);
+    }
+  }
+
+  async send({ method, url }: TransportRequest): Promise<TransportResponse> {
+    const exchange = this.pending.get(`${method} ${url}`)?.shift();
+    if (!exchange) {
+      throw new Error(`No recorded response for ${method} ${url}`);
+    }
+    return { status: exchange.status, headers: exchange.responseHeaders ?? {}, body: exchange.responseBody };
+  }
+
+  get remaining(): number {
+    let count = 0;
+    this.pending.forEach(exchanges => { count += exchanges.length; });
+    return count;
+  }
+}
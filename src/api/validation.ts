@@ -0,0 +1,298 @@
+/**
+ * Runtime Validation
+ *
+ * Schemas for the payloads in ../types/topsort, checked at runtime since
+ * TypeScript types vanish once a request is built from user input or a
+ * response arrives over the wire. Each object schema must cover every
+ * field of its type, so the two can't drift apart silently. Failures list
+ * every offending field by path, e.g. `impressions[0].occurredAt`, and
+ * surface as TopsortValidationError (see ./errors).
+ */
+
+import type {
+  AttributionReport,
+  AuctionError,
+  AuctionRequest,
+  AuctionResponse,
+  AuctionResult,
+  AuctionSlot,
+  BannerAsset,
+  CampaignAttribution,
+  CategoryFilter,
+  Click,
+  EventResponse,
+  EventsRequest,
+  GeoTargeting,
+  IdentityMergeResponse,
+  Impression,
+  ProductFilter,
+  Purchase,
+  PurchaseItem,
+  ValidationIssue,
+  ViewabilityReport,
+  Viewability,
+  Winner,
+} from '../types/topsort';
+
+export const MAX_AUCTIONS_PER_REQUEST = 5;
+export const MAX_AUCTION_SLOTS = 40;
+
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: ValidationIssue[]): void;
+  readonly optional?: boolean;   // Accepts undefined, so the field may be missing
+  readonly type?: T;             // Compile-time only: ties the schema to its type
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// Full ISO 8601 date-time as produced by Date.prototype.toISOString, or with an offset
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+function string(options: { nonEmpty?: boolean; isoDateTime?: boolean } = {}): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: 'must be a string' });
+      } else if (options.nonEmpty && value.trim() === '') {
+        issues.push({ path, message: 'must not be empty' });
+      } else if (options.isoDateTime && (!ISO_DATE_TIME.test(value) || Number.isNaN(Date.parse(value)))) {
+        issues.push({ path, message: `must be an ISO 8601 date-time, got "${value}"` });
+      }
+    },
+  };
+}
+
+function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: 'must be a finite number' });
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: 'must be an integer' });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `must be at least ${options.min}, got ${value}` });
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `must be at most ${options.max}, got ${value}` });
+      }
+    },
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'boolean') issues.push({ path, message: 'must be a boolean' });
+    },
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as T)) {
+        issues.push({ path, message: `must be one of ${values.map(v => `'${v}'`).join(', ')}` });
+      }
+    },
+  };
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    check(value, path, issues) {
+      if (value !== undefined) schema.check(value, path, issues);
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'must be an array' });
+        return;
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ path, message: `must have at least ${options.min} item${options.min === 1 ? '' : 's'}` });
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push({ path, message: `must have at most ${options.max} items, got ${value.length}` });
+      }
+      value.forEach((element, index) => item.check(element, joinPath(path, index), issues));
+    },
+  };
+}
+
+function object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: value === undefined ? 'is required' : 'must be an object' });
+        return;
+      }
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const field = (value as Record<string, unknown>)[key];
+        if (field === undefined && !shape[key].optional) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+        } else {
+          shape[key].check(field, joinPath(path, key), issues);
+        }
+      }
+    },
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schema.check(value, '', issues);
+  return issues;
+}
+
+// Requests
+
+const auctionSlotSchema = object<AuctionSlot>({
+  type: oneOf(['listings', 'banners']),
+  slots: number({ min: 1, max: MAX_AUCTION_SLOTS, integer: true }),
+  slotId: optional(string({ nonEmpty: true })),
+  products: optional(object<ProductFilter>({ ids: array(string({ nonEmpty: true }), { min: 1 }) })),
+  category: optional(object<CategoryFilter>({ id: string({ nonEmpty: true }) })),
+  searchQuery: optional(string()),
+  geoTargeting: optional(object<GeoTargeting>({ location: string({ nonEmpty: true }) })),
+});
+
+export const auctionRequestSchema = object<AuctionRequest>({
+  auctions: array(auctionSlotSchema, { min: 1, max: MAX_AUCTIONS_PER_REQUEST }),
+});
+
+const eventFields = {
+  id: string({ nonEmpty: true }),
+  occurredAt: string({ isoDateTime: true }),
+  opaqueUserId: optional(string({ nonEmpty: true })),
+};
+
+export const impressionSchema = object<Impression>({
+  ...eventFields,
+  resolvedBidId: string({ nonEmpty: true }),
+  placement: object<Impression['placement']>({ path: string({ nonEmpty: true }) }),
+  billable: optional(boolean()),
+});
+
+export const clickSchema = object<Click>({
+  ...eventFields,
+  resolvedBidId: string({ nonEmpty: true }),
+  billable: optional(boolean()),
+});
+
+export const viewabilitySchema = object<Viewability>({
+  ...eventFields,
+  resolvedBidId: string({ nonEmpty: true }),
+  viewable: boolean(),
+  percentVisible: number({ min: 0, max: 100 }),
+  timeInViewMs: number({ min: 0 }),
+});
+
+export const purchaseSchema = object<Purchase>({
+  ...eventFields,
+  items: array(object<PurchaseItem>({
+    productId: string({ nonEmpty: true }),
+    quantity: number({ min: 1, integer: true }),
+    unitPrice: number({ min: 0 }),
+    resolvedBidId: optional(string({ nonEmpty: true })),
+  }), { min: 1 }),
+  resolvedBidId: optional(string({ nonEmpty: true })),
+});
+
+const EVENT_SCHEMAS: { [K in keyof EventsRequest]-?: Schema<NonNullable<EventsRequest[K]>[number]> } = {
+  impressions: impressionSchema,
+  clicks: clickSchema,
+  purchases: purchaseSchema,
+  viewabilities: viewabilitySchema,
+};
+
+/**
+ * Split a batch into the events that pass validation and the issues
+ * found in the rest. Issue paths are relative to the whole batch.
+ */
+export function partitionEvents(events: EventsRequest): { valid: EventsRequest; issues: ValidationIssue[] } {
+  const valid: EventsRequest = {};
+  const issues: ValidationIssue[] = [];
+
+  for (const kind of Object.keys(EVENT_SCHEMAS) as Array<keyof EventsRequest>) {
+    const list = events[kind];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      issues.push({ path: kind, message: 'must be an array' });
+      continue;
+    }
+    const schema = EVENT_SCHEMAS[kind] as Schema<unknown>;
+    const accepted = list.filter((event, index) => {
+      const eventIssues: ValidationIssue[] = [];
+      schema.check(event, joinPath(kind, index), eventIssues);
+      issues.push(...eventIssues);
+      return eventIssues.length === 0;
+    });
+    if (accepted.length > 0) (valid as Record<string, unknown[]>)[kind] = accepted;
+  }
+
+  return { valid, issues };
+}
+
+// Responses
+
+export const auctionResponseSchema = object<AuctionResponse>({
+  results: array(object<AuctionResult>({
+    resultType: oneOf(['listings', 'banners']),
+    winners: array(object<Winner>({
+      rank: number({ min: 1, integer: true }),
+      type: oneOf(['product', 'vendor', 'brand', 'url']),
+      id: string({ nonEmpty: true }),
+      resolvedBidId: string({ nonEmpty: true }),
+      winnerPrice: number({ min: 0 }),
+      billingModel: optional(oneOf(['cpc', 'cpm'])),
+      asset: optional(array(object<BannerAsset>({ url: string({ nonEmpty: true }) }))),
+      billable: optional(boolean()),
+    })),
+    error: optional(object<AuctionError>({ code: string(), message: string() })),
+    stale: optional(boolean()),
+  })),
+});
+
+export const eventResponsesSchema = array(object<EventResponse>({
+  id: string({ nonEmpty: true }),
+  status: oneOf(['received', 'processed', 'failed', 'duplicate']),
+  error: optional(string()),
+}));
+
+export const identityMergeResponseSchema = object<IdentityMergeResponse>({
+  opaqueUserId: string({ nonEmpty: true }),
+  mergedEvents: number({ min: 0, integer: true }),
+});
+
+export const viewabilityReportSchema = object<ViewabilityReport>({
+  impressions: number({ min: 0 }),
+  measuredImpressions: number({ min: 0 }),
+  viewableImpressions: number({ min: 0 }),
+  viewableRate: number({ min: 0, max: 100 }),
+  averageTimeInViewMs: number({ min: 0 }),
+});
+
+export const attributionReportSchema = object<AttributionReport>({
+  model: oneOf(['last-click', 'last-touch', 'linear']),
+  clickLookbackDays: number({ min: 0 }),
+  viewLookbackDays: number({ min: 0 }),
+  generatedAt: string({ isoDateTime: true }),
+  totalPurchases: number({ min: 0 }),
+  attributedPurchases: number({ min: 0 }),
+  totalRevenue: number(),
+  attributedRevenue: number(),
+  mismatchedPurchases: number({ min: 0 }),
+  campaigns: array(object<CampaignAttribution>({
+    campaignId: string({ nonEmpty: true }),
+    vendor: string(),
+    attributedPurchases: number({ min: 0 }),
+    attributedRevenue: number(),
+  })),
+});
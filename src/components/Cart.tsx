@@ -25,8 +25,105 @@ import {
   CreditCard,
   PartyPopper,
 } from 'lucide-react';
-import { useCart } from '@/context/CartContext';
+import { useCart, type CartItem } from '@/context/CartContext';
 import { useTopsortContext } from '@/context/TopsortContext';
+import { useViewability } from '@/hooks/useViewability';
+
+function CartLineItem({
+  item,
+  onRemove,
+  onUpdateQuantity,
+}: {
+  item: CartItem;
+  onRemove: (productId: string) => void;
+  onUpdateQuantity: (productId: string, quantity: number) => void;
+}) {
+  const { trackViewability } = useTopsortContext();
+  const { resolvedBidId } = item;
+
+  // Sponsored items in the cart were already counted as impressions where
+  // the shopper found them; here only their viewability is measured
+  const { ref: itemRef } = useViewability<HTMLDivElement>({
+    enabled: !!resolvedBidId,
+    resetKey: resolvedBidId,
+    onMeasurement: ({ viewable, percentVisible, timeInViewMs }) => {
+      if (resolvedBidId) trackViewability(resolvedBidId, viewable, percentVisible, timeInViewMs);
+    },
+  });
+
+  return (
+    <div ref={itemRef} className="flex gap-4">
+      {/* Product Image */}
+      <div className="relative w-20 h-20 rounded-lg overflow-hidden bg-muted shrink-0">
+        <img
+          src={item.product.image}
+          alt={item.product.name}
+          className="w-full h-full object-cover"
+        />
+        {item.resolvedBidId && (
+          <div className="absolute top-1 left-1">
+            <Sparkles className="h-3 w-3 text-primary" />
+          </div>
+        )}
+      </div>
+
+      {/* Product Info */}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h4 className="font-medium text-sm leading-tight line-clamp-2">
+              {item.product.name}
+            </h4>
+            {item.resolvedBidId && (
+              <Badge variant="secondary" className="mt-1 text-xs">
+                Sponsored
+              </Badge>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+            onClick={() => onRemove(item.product.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between mt-2">
+          {/* Quantity Controls */}
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onUpdateQuantity(item.product.id, item.quantity - 1)}
+              disabled={item.quantity <= 1}
+            >
+              <Minus className="h-3 w-3" />
+            </Button>
+            <span className="w-8 text-center text-sm font-medium">
+              {item.quantity}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onUpdateQuantity(item.product.id, item.quantity + 1)}
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </div>
+
+          {/* Price */}
+          <span className="font-semibold">
+            ${(item.product.price * item.quantity).toFixed(2)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
 
 export function Cart() {
   const { items, removeItem, updateQuantity, clearCart, totalItems, totalPrice } = useCart();
@@ -42,15 +139,13 @@ export function Cart() {
     // Simulate payment processing
     await new Promise(resolve => setTimeout(resolve, 1500));
 
-    // Track purchase for each item
-    for (const item of items) {
-      trackPurchase(
-        item.product.id,
-        item.quantity,
-        item.product.price,
-        item.resolvedBidId // Will be undefined for non-sponsored products
-      );
-    }
+    // Track the whole order as a single purchase
+    trackPurchase(items.map(item => ({
+      productId: item.product.id,
+      quantity: item.quantity,
+      unitPrice: item.product.price,
+      resolvedBidId: item.resolvedBidId, // Will be undefined for non-sponsored products
+    })));
 
     setCheckoutState('success');
 
@@ -113,76 +208,12 @@ export function Cart() {
                 </div>
               ) : (
                 items.map(item => (
-                  <div key={item.product.id} className="flex gap-4">
-                    {/* Product Image */}
-                    <div className="relative w-20 h-20 rounded-lg overflow-hidden bg-muted shrink-0">
-                      <img
-                        src={item.product.image}
-                        alt={item.product.name}
-                        className="w-full h-full object-cover"
-                      />
-                      {item.resolvedBidId && (
-                        <div className="absolute top-1 left-1">
-                          <Sparkles className="h-3 w-3 text-primary" />
-                        </div>
-                      )}
-                    </div>
-
-                    {/* Product Info */}
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between gap-2">
-                        <div>
-                          <h4 className="font-medium text-sm leading-tight line-clamp-2">
-                            {item.product.name}
-                          </h4>
-                          {item.resolvedBidId && (
-                            <Badge variant="secondary" className="mt-1 text-xs">
-                              Sponsored
-                            </Badge>
-                          )}
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
-                          onClick={() => removeItem(item.product.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-
-                      <div className="flex items-center justify-between mt-2">
-                        {/* Quantity Controls */}
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            className="h-7 w-7"
-                            onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
-                            disabled={item.quantity <= 1}
-                          >
-                            <Minus className="h-3 w-3" />
-                          </Button>
-                          <span className="w-8 text-center text-sm font-medium">
-                            {item.quantity}
-                          </span>
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            className="h-7 w-7"
-                            onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
-                          >
-                            <Plus className="h-3 w-3" />
-                          </Button>
-                        </div>
-
-                        {/* Price */}
-                        <span className="font-semibold">
-                          ${(item.product.price * item.quantity).toFixed(2)}
-                        </span>
-                      </div>
-                    </div>
-                  </div>
+                  <CartLineItem
+                    key={item.product.id}
+                    item={item}
+                    onRemove={removeItem}
+                    onUpdateQuantity={updateQuantity}
+                  />
                 ))
               )}
             </div>
@@ -47,7 +47,7 @@ const checklistItems: ChecklistItem[] = [
     title: 'Run First Auction',
     description: 'Request sponsored product placements',
     icon: Zap,
-    check: (analytics) => analytics.impressions > 0 || analytics.adSpend > 0,
+    check: (analytics) => analytics.slotsRequested > 0 || analytics.impressions > 0,
     codeHint: 'client.runAuction({ auctions: [...] })',
     docsUrl: 'https://docs.topsort.com/auctions/',
   },
@@ -83,7 +83,7 @@ const checklistItems: ChecklistItem[] = [
     title: 'Track Conversions',
     description: 'Attribute purchases back to ad clicks',
     icon: ShoppingCart,
-    check: (analytics) => analytics.purchases > 0,
+    check: (analytics) => analytics.orders > 0,
     codeHint: 'client.trackEvent({ type: "purchase" })',
     docsUrl: 'https://docs.topsort.com/events/',
   },
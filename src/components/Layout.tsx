@@ -9,20 +9,24 @@ import {
   ShoppingBag,
   Zap,
   Activity,
-  ExternalLink
+  ExternalLink,
+  Megaphone,
+  MapPin,
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { useTopsortContext } from '@/context/TopsortContext';
 import { Cart } from '@/components/Cart';
+import { shopperLocations } from '@/mock/locations';
 
 const navItems = [
   { to: '/onboarding', label: 'Getting Started', icon: Zap },
   { to: '/catalog', label: 'Product Catalog', icon: ShoppingBag },
   { to: '/dashboard', label: 'Integration Dashboard', icon: LayoutDashboard },
+  { to: '/campaigns', label: 'Campaigns', icon: Megaphone },
 ];
 
 export function Layout() {
-  const { status, isInitialized } = useTopsortContext();
+  const { status, isInitialized, shopperLocation, setShopperLocation } = useTopsortContext();
 
   return (
     <div className="min-h-screen bg-background">
@@ -69,6 +73,21 @@ export function Layout() {
 
           {/* Status indicator & Cart */}
           <div className="flex items-center gap-4">
+            {/* Shopper location (sent as GeoTargeting on auctions) */}
+            <label className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4" />
+              <select
+                value={shopperLocation}
+                onChange={(e) => setShopperLocation(e.target.value)}
+                className="bg-transparent text-sm focus:outline-none cursor-pointer"
+                aria-label="Shopper location"
+              >
+                <option value="">Any location</option>
+                {shopperLocations.map(location => (
+                  <option key={location.id} value={location.id}>{location.label}</option>
+                ))}
+              </select>
+            </label>
             {isInitialized && (
               <div className="flex items-center gap-2 text-sm">
                 <Activity className={cn(
@@ -22,9 +22,11 @@ import {
   FileJson,
   Zap,
   Activity,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ApiLog } from '@/context/TopsortContext';
+import type { ApiError, ValidationIssue } from '@/types/topsort';
 
 function formatTime(date: Date): string {
   return date.toLocaleTimeString('en-US', {
@@ -36,6 +38,47 @@ function formatTime(date: Date): string {
   });
 }
 
+// Auction responses served from the client's stale cache
+function isStaleFallback(log: ApiLog): boolean {
+  if (log.type !== 'response' || log.endpoint !== '/auctions') return false;
+  const data = log.data as { results?: Array<{ stale?: boolean }> };
+  return !!data.results?.some(result => result.stale);
+}
+
+function getApiError(log: ApiLog): Partial<ApiError> | null {
+  return log.type === 'error' ? log.data as Partial<ApiError> : null;
+}
+
+// Schema validation failures carry the offending field paths
+function getValidationIssues(log: ApiLog): ValidationIssue[] {
+  return getApiError(log)?.validationIssues ?? [];
+}
+
+// HTTP status, or what kind of failure it was when there is no status
+function getErrorLabel(error: Partial<ApiError>): string | null {
+  if (error.statusCode) return `HTTP ${error.statusCode}`;
+  return error.kind ? error.kind.toUpperCase() : null;
+}
+
+function ValidationIssues({ issues }: { issues: ValidationIssue[] }) {
+  return (
+    <div className="mb-3 rounded-lg border border-destructive/30 bg-destructive/5 p-3">
+      <p className="text-xs font-medium text-destructive flex items-center gap-1 mb-2">
+        <ShieldAlert className="h-3 w-3" />
+        Schema validation failed ({issues.length} {issues.length === 1 ? 'field' : 'fields'})
+      </p>
+      <ul className="space-y-1">
+        {issues.map((issue, index) => (
+          <li key={index} className="text-xs">
+            <code className="font-mono font-medium">{issue.path || '(root)'}</code>{' '}
+            <span className="text-muted-foreground">{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function getCodeSnippet(log: ApiLog): string {
   if (log.type !== 'request') return '';
 
@@ -56,6 +99,7 @@ topsortClient.createAuction({
     const hasImpressions = !!(data as { impressions?: unknown[] }).impressions?.length;
     const hasClicks = !!(data as { clicks?: unknown[] }).clicks?.length;
     const hasPurchases = !!(data as { purchases?: unknown[] }).purchases?.length;
+    const hasViewabilities = !!(data as { viewabilities?: unknown[] }).viewabilities?.length;
 
     if (hasImpressions) {
       return `// Report impressions when sponsored products are displayed
@@ -86,8 +130,25 @@ topsortClient.reportEvent({
   purchases: [{
     id: crypto.randomUUID(),
     occurredAt: new Date().toISOString(),
-    items: [{ productId: 'prod-123', quantity: 1, unitPrice: 29.99 }],
-    resolvedBidId: winner.resolvedBidId  // Optional for attribution
+    items: [
+      // resolvedBidId per item; omit it for organic items
+      { productId: 'prod-123', quantity: 1, unitPrice: 29.99, resolvedBidId: winner.resolvedBidId },
+      { productId: 'prod-456', quantity: 2, unitPrice: 9.99 }
+    ]
+  }]
+});`;
+    }
+
+    if (hasViewabilities) {
+      return `// Report viewability measurements (demo extension, not in the documented API)
+topsortClient.reportEvent({
+  viewabilities: [{
+    resolvedBidId: winner.resolvedBidId,
+    id: crypto.randomUUID(),
+    occurredAt: new Date().toISOString(),
+    viewable: true,
+    percentVisible: 75,
+    timeInViewMs: 1200
   }]
 });`;
     }
@@ -174,6 +235,9 @@ function LogEntry({ log }: { log: ApiLog }) {
   };
 
   const eventTypes = getEventTypes();
+  const validationIssues = getValidationIssues(log);
+  const apiError = getApiError(log);
+  const errorLabel = apiError && getErrorLabel(apiError);
 
   return (
     <div className={cn(
@@ -207,6 +271,31 @@ function LogEntry({ log }: { log: ApiLog }) {
 
           <code className="text-sm font-medium">{log.endpoint}</code>
 
+          {isStaleFallback(log) && (
+            <Badge variant="outline" className="text-xs border-yellow-400 text-yellow-700">
+              STALE
+            </Badge>
+          )}
+
+          {errorLabel && (
+            <Badge variant="outline" className="text-xs font-mono border-destructive/50 text-destructive">
+              {errorLabel}
+            </Badge>
+          )}
+
+          {apiError?.retryable !== undefined && (
+            <Badge variant="outline" className="text-xs">
+              {apiError.retryable ? 'Retryable' : 'Not retryable'}
+            </Badge>
+          )}
+
+          {validationIssues.length > 0 && (
+            <Badge variant="outline" className="text-xs border-destructive/50 text-destructive font-mono">
+              {validationIssues[0].path || 'INVALID'}
+              {validationIssues.length > 1 && ` +${validationIssues.length - 1}`}
+            </Badge>
+          )}
+
           {/* Event type badges */}
           {eventTypes.map(type => (
             <Badge key={type} variant="outline" className="text-xs capitalize">
@@ -237,6 +326,7 @@ function LogEntry({ log }: { log: ApiLog }) {
       {/* Expanded content */}
       {expanded && (
         <div className="p-3">
+          {validationIssues.length > 0 && <ValidationIssues issues={validationIssues} />}
           <LogDetail log={log} />
         </div>
       )}
@@ -259,6 +349,8 @@ export function RequestInspector({ logs, onClear }: RequestInspectorProps) {
   const requestCount = logs.filter(l => l.type === 'request').length;
   const responseCount = logs.filter(l => l.type === 'response').length;
   const errorCount = logs.filter(l => l.type === 'error').length;
+  const fallbackCount = logs.filter(isStaleFallback).length;
+  const validationCount = logs.filter(l => getValidationIssues(l).length > 0).length;
 
   const avgLatency = logs
     .filter(l => l.duration)
@@ -278,6 +370,16 @@ export function RequestInspector({ logs, onClear }: RequestInspectorProps) {
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
+            {fallbackCount > 0 && (
+              <Badge variant="outline" className="text-xs border-yellow-400 text-yellow-700">
+                Stale fallbacks: {fallbackCount}
+              </Badge>
+            )}
+            {validationCount > 0 && (
+              <Badge variant="outline" className="text-xs border-destructive/50 text-destructive">
+                Validation failures: {validationCount}
+              </Badge>
+            )}
             {avgLatency > 0 && (
               <Badge variant="outline" className="font-mono text-xs">
                 Avg: {Math.round(avgLatency)}ms
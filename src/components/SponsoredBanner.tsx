@@ -0,0 +1,171 @@
+/**
+ * Sponsored Banner
+ * Runs a banner auction for a slot and renders the winning creative
+ * with impression, IAB viewability and click tracking
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Sparkles, Eye, ExternalLink } from 'lucide-react';
+import { useTopsortContext } from '@/context/TopsortContext';
+import { getProductById } from '@/mock/products';
+import { BANNER_SLOTS } from '@/mock/banners';
+import { useViewability, type ViewabilityStandardName } from '@/hooks/useViewability';
+import type { Winner, SponsoredProduct } from '@/types/topsort';
+import { cn } from '@/lib/utils';
+
+interface SponsoredBannerProps {
+  slotId: keyof typeof BANNER_SLOTS;
+  page: string;
+  category?: string;
+  className?: string;
+  // Full-width banners are large-format ads (30% visible for 1 second)
+  viewabilityStandard?: ViewabilityStandardName;
+}
+
+export function SponsoredBanner({
+  slotId,
+  page,
+  category,
+  className,
+  viewabilityStandard = 'iab-large-display',
+}: SponsoredBannerProps) {
+  const navigate = useNavigate();
+  const {
+    runAuction,
+    trackImpression,
+    trackViewability,
+    trackClick,
+    isInitialized,
+    shopperLocation,
+  } = useTopsortContext();
+
+  const [winner, setWinner] = useState<Winner | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const aspectRatio = BANNER_SLOTS[slotId].aspectRatio.replace(':', ' / ');
+
+  // Run the banner auction whenever the slot context changes
+  useEffect(() => {
+    if (!isInitialized) return;
+    let cancelled = false;
+
+    runAuction({
+      auctions: [{
+        type: 'banners',
+        slots: 1,
+        slotId,
+        ...(category && category !== 'all' ? { category: { id: category } } : {}),
+        ...(shopperLocation ? { geoTargeting: { location: shopperLocation } } : {}),
+      }],
+    }, { page, location: slotId })
+      .then(response => {
+        if (!cancelled) setWinner(response.results[0]?.winners[0] || null);
+      })
+      .catch(() => {
+        // Error is logged via context; the slot simply stays empty
+        if (!cancelled) setWinner(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isInitialized, runAuction, page, slotId, category, shopperLocation]);
+
+  // Track impression and viewability; a new winner starts a new measurement
+  const { ref: bannerRef, isViewable } = useViewability<HTMLDivElement>({
+    enabled: !!winner,
+    standard: viewabilityStandard,
+    resetKey: winner?.resolvedBidId,
+    onImpression: () => {
+      if (winner) trackImpression(winner.resolvedBidId, page, slotId, winner.billable !== false);
+    },
+    onMeasurement: ({ viewable, percentVisible, timeInViewMs }) => {
+      if (winner) trackViewability(winner.resolvedBidId, viewable, percentVisible, timeInViewMs);
+    },
+  });
+
+  const handleClick = () => {
+    if (!winner) return;
+    trackClick(winner.resolvedBidId, winner.billable !== false);
+
+    if (winner.type === 'url') {
+      window.open(winner.id, '_blank', 'noopener,noreferrer');
+      return;
+    }
+
+    const product = winner.type === 'product' ? getProductById(winner.id) : undefined;
+    if (product) {
+      // Carry the banner's bid so a resulting purchase is attributed to it
+      const sponsored: SponsoredProduct = {
+        ...product,
+        isSponsored: true,
+        resolvedBidId: winner.resolvedBidId,
+        rank: winner.rank,
+        ...(winner.billable === false ? { billable: false } : {}),
+      };
+      navigate(`/product/${product.id}`, { state: { product: sponsored } });
+    } else {
+      navigate('/catalog');
+    }
+  };
+
+  if (!isInitialized) return null;
+
+  if (loading) {
+    return (
+      <div
+        className={cn('w-full rounded-xl bg-muted animate-pulse', className)}
+        style={{ aspectRatio }}
+      />
+    );
+  }
+
+  const assetUrl = winner?.asset?.[0]?.url;
+  if (!winner || !assetUrl) return null;
+
+  return (
+    <div
+      ref={bannerRef}
+      className={cn(
+        'group relative w-full cursor-pointer overflow-hidden rounded-xl ring-2 ring-primary/30 hover:ring-primary/50 transition-all',
+        className
+      )}
+      style={{ aspectRatio }}
+      onClick={handleClick}
+    >
+      <img
+        src={assetUrl}
+        alt="Sponsored banner"
+        className="h-full w-full object-cover transition-transform group-hover:scale-[1.02]"
+      />
+
+      {/* Badges */}
+      <div className="absolute top-3 left-3 flex gap-1 flex-wrap">
+        <Badge className="bg-primary/90 hover:bg-primary gap-1">
+          <Sparkles className="h-3 w-3" />
+          Sponsored
+        </Badge>
+        {isViewable && (
+          <Badge variant="secondary" className="gap-1 bg-green-100 text-green-700">
+            <Eye className="h-3 w-3" />
+            Viewable
+          </Badge>
+        )}
+      </div>
+
+      {winner.type === 'url' && (
+        <div className="absolute bottom-3 right-3">
+          <Badge variant="secondary" className="gap-1">
+            Visit site
+            <ExternalLink className="h-3 w-3" />
+          </Badge>
+        </div>
+      )}
+    </div>
+  );
+}
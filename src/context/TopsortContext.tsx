@@ -5,13 +5,38 @@
 
 import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode } from 'react';
 import { TopsortClient, initializeTopsortClient } from '@/api/topsort-client';
+import { IdentityManager, type ShopperIdentity } from '@/api/identity';
+import {
+  AnalyticsStore,
+  EMPTY_ANALYTICS,
+  addAnalytics,
+  toDimension,
+  TOTALS_DIMENSION,
+  type AnalyticsData,
+  type AnalyticsEntry,
+  type AnalyticsRollup,
+  type RollupGranularity,
+} from '@/lib/analytics-store';
+import { getProductById } from '@/mock/products';
+import { MockServer, createMockTransport, type SimulatedFailure } from '@/mock/mock-server';
+import { RATE_LIMIT_POLICIES, type RateLimitPolicyName } from '@/mock/rate-limit';
+import { getChargeAmount } from '@/mock/billing';
+import type { CampaignStore } from '@/mock/campaigns';
 import type {
+  AttributionReport,
+  AttributionReportRequest,
   AuctionRequest,
   AuctionResponse,
   IntegrationStatus,
   ApiError,
+  PurchaseItem,
+  BillingModel,
+  ViewabilityReport,
+  Winner,
 } from '@/types/topsort';
 
+export type { AnalyticsData } from '@/lib/analytics-store';
+
 export interface ApiLog {
   id: string;
   timestamp: Date;
@@ -21,28 +46,10 @@ export interface ApiLog {
   duration?: number;
 }
 
-// Analytics data for funnel and charts
-export interface AnalyticsData {
-  impressions: number;
-  viewableImpressions: number;
-  clicks: number;
-  addToCarts: number;
-  purchases: number;
-  revenue: number;
-  adSpend: number;
-  // Separate tracking for attribution analysis
-  attributedPurchases: number;  // Purchases from sponsored products
-  organicPurchases: number;     // Purchases from non-sponsored products
-  attributedRevenue: number;
-  organicRevenue: number;
-  // Time series data for charts
-  eventTimeline: Array<{
-    timestamp: Date;
-    type: 'impression' | 'viewability' | 'click' | 'addToCart' | 'purchase';
-    productId?: string;
-    value?: number;
-    isAttributed?: boolean;  // Was this from a sponsored product?
-  }>;
+// Where sponsored results are shown; events use the path `/${page}/${location}`
+interface Placement {
+  page: string;
+  location: string;
 }
 
 interface TopsortContextValue {
@@ -50,35 +57,82 @@ interface TopsortContextValue {
   isInitialized: boolean;
   status: IntegrationStatus;
   apiLogs: ApiLog[];
-  analytics: AnalyticsData;
+  analytics: AnalyticsData;     // All-time totals, restored once and then kept running
+  analyticsRevision: number;    // Bumped when the stored history is cleared
+  shopperLocation: string;      // GeoTargeting location ('' when unknown)
+  identity: ShopperIdentity;    // Stamped on events as opaqueUserId
+  campaignStore: CampaignStore; // Campaigns of the demo's mock backend
 
   // Actions
   initialize: (apiKey: string) => void;
-  runAuction: (request: AuctionRequest) => Promise<AuctionResponse>;
-  trackImpression: (resolvedBidId: string, page: string, location: string) => void;
+  runAuction: (request: AuctionRequest, placement?: Placement) => Promise<AuctionResponse>;
+  // Pass billable: false for a winner served from the cache (winner.billable)
+  trackImpression: (resolvedBidId: string, page: string, location: string, billable?: boolean) => void;
   trackViewability: (resolvedBidId: string, viewable: boolean, percentVisible: number, timeInViewMs: number) => void;
-  trackClick: (resolvedBidId: string) => void;
-  trackAddToCart: (productId: string, quantity: number, unitPrice: number, resolvedBidId?: string) => void;
-  trackPurchase: (productId: string, quantity: number, unitPrice: number, resolvedBidId?: string) => void;
+  trackClick: (resolvedBidId: string, billable?: boolean) => void;
+  trackAddToCart: (productId: string, quantity: number, unitPrice: number, resolvedBidId?: string, billable?: boolean) => void;
+  trackPurchase: (items: PurchaseItem[]) => void;
+  fetchAttributionReport: (options?: AttributionReportRequest) => Promise<AttributionReport>;
+  fetchViewabilityReport: () => Promise<ViewabilityReport>;
+  // Pass a dimension for its breakdown, or null for every dimension
+  queryAnalytics: (
+    from: Date,
+    to: Date,
+    granularity: RollupGranularity,
+    dimension?: string | null
+  ) => Promise<AnalyticsRollup[]>;
+  // Called with each batch of entries as it is recorded; returns an unsubscribe
+  subscribeAnalytics: (listener: AnalyticsListener) => () => void;
   clearLogs: () => void;
   clearAnalytics: () => void;
-  setErrorSimulation: (enabled: boolean) => void;
+  setErrorSimulation: (enabled: boolean, failure?: SimulatedFailure) => void;
+  setRateLimitPolicy: (policy: RateLimitPolicyName) => void;
+  setShopperLocation: (location: string) => void;
+  logIn: (userId: string) => Promise<void>;
+  logOut: () => void;
 }
 
-const initialAnalytics: AnalyticsData = {
-  impressions: 0,
-  viewableImpressions: 0,
-  clicks: 0,
-  addToCarts: 0,
-  purchases: 0,
-  revenue: 0,
-  adSpend: 0,
-  attributedPurchases: 0,
-  organicPurchases: 0,
-  attributedRevenue: 0,
-  organicRevenue: 0,
-  eventTimeline: [],
-};
+// Bids seen in auctions whose product/vendor is remembered for later events
+const MAX_TRACKED_BIDS = 1000;
+
+const MERGE_RETRY_INTERVAL_MS = 5000;
+
+interface BidContext {
+  dimensions: string[];          // Product, vendor and category of the winner
+  placement?: string;            // Placement dimension it was last shown in
+  charge?: {                     // Cleared once billed; never set for cached winners
+    billingModel: BillingModel;
+    amount: number;
+  };
+}
+
+function getPlacementDimension({ page, location }: Placement): string {
+  return toDimension('placement', `/${page}/${location}`);
+}
+
+// Product, vendor and category breakdowns an event counts toward
+function getProductDimensions(productId: string): string[] {
+  const product = getProductById(productId);
+  if (!product) return [toDimension('product', productId)];
+  return [
+    toDimension('product', product.id),
+    toDimension('vendor', product.vendor),
+    toDimension('category', product.category),
+  ];
+}
+
+function getWinnerDimensions(winner: Winner): string[] {
+  if (winner.type === 'product') return getProductDimensions(winner.id);
+  if (winner.type === 'vendor') return [toDimension('vendor', winner.id)];
+  return [];
+}
+
+// The delta for the totals and for each breakdown dimension
+function withDimensions(delta: Partial<AnalyticsData>, dimensions: string[]): AnalyticsEntry[] {
+  return [TOTALS_DIMENSION, ...dimensions].map(dimension => ({ dimension, delta }));
+}
+
+export type AnalyticsListener = (entries: AnalyticsEntry[], at: Date) => void;
 
 const TopsortContext = createContext<TopsortContextValue | null>(null);
 
@@ -86,15 +140,34 @@ export function TopsortProvider({ children }: { children: ReactNode }) {
   const [isInitialized, setIsInitialized] = useState(false);
   const [status, setStatus] = useState<IntegrationStatus>({
     apiHealth: 'healthy',
+    circuitState: 'closed',
     lastAuctionCall: null,
     lastEventSent: null,
     auctionSuccessRate: 100,
     eventsSentToday: 0,
+    queuedEvents: 0,
+    deadLetterEvents: 0,
+    staleAuctionServes: 0,
+    throttledUntil: null,
+    throttledResponses: 0,
+    rateLimitLimit: null,
+    rateLimitRemaining: null,
     errors: [],
   });
   const [apiLogs, setApiLogs] = useState<ApiLog[]>([]);
-  const [analytics, setAnalytics] = useState<AnalyticsData>(initialAnalytics);
+  const [analytics, setAnalytics] = useState<AnalyticsData>(EMPTY_ANALYTICS);
+  const [analyticsStore] = useState(() => new AnalyticsStore());
+  const [analyticsRevision, setAnalyticsRevision] = useState(0);
+  const [shopperLocation, setShopperLocation] = useState('');
+  const [identityManager] = useState(() => new IdentityManager());
+  const [identity, setIdentity] = useState<ShopperIdentity>(() => identityManager.getIdentity());
+  // The demo's backend; kept across re-initialization so campaigns and spend survive
+  const [mockServer] = useState(() => new MockServer());
   const clientRef = useRef<TopsortClient | null>(null);
+  const analyticsListenersRef = useRef(new Set<AnalyticsListener>());
+  const mergingRef = useRef(false);
+  // resolvedBidId -> what the winner promotes and where it was shown
+  const bidContextsRef = useRef(new Map<string, BidContext>());
 
   const addLog = useCallback((log: Omit<ApiLog, 'id' | 'timestamp'>) => {
     setApiLogs(prev => [{
@@ -104,25 +177,58 @@ export function TopsortProvider({ children }: { children: ReactNode }) {
     }, ...prev].slice(0, 100));
   }, []);
 
-  const addTimelineEvent = useCallback((
-    type: AnalyticsData['eventTimeline'][0]['type'],
-    productId?: string,
-    value?: number
-  ) => {
-    setAnalytics(prev => ({
-      ...prev,
-      eventTimeline: [...prev.eventTimeline, {
-        timestamp: new Date(),
-        type,
-        productId,
-        value,
-      }].slice(-100), // Keep last 100 events
-    }));
+  // Totals are updated in memory as events are recorded; the store is
+  // only read to restore them and for Dashboard date ranges
+  const recordAnalytics = useCallback((entries: AnalyticsEntry[]) => {
+    const at = new Date();
+    analyticsStore.record(entries, at)
+      .catch(error => console.warn('[Topsort] Failed to persist analytics:', error));
+    const totals = entries.filter(entry => entry.dimension === TOTALS_DIMENSION);
+    setAnalytics(prev => totals.reduce((sum, entry) => addAnalytics(sum, entry.delta), prev));
+    analyticsListenersRef.current.forEach(listener => listener(entries, at));
+  }, [analyticsStore]);
+
+  // Placement dimension of a sponsored item, if the bid was seen this session
+  const getBidPlacement = useCallback((resolvedBidId?: string): string[] => {
+    const placement = resolvedBidId ? bidContextsRef.current.get(resolvedBidId)?.placement : undefined;
+    return placement ? [placement] : [];
+  }, []);
+
+  // Spend billed by this event, mirroring the server: once per bid, on
+  // the click for CPC and on the impression for CPM, never for a cached render
+  const billBid = useCallback((
+    resolvedBidId: string,
+    event: 'impression' | 'click',
+    billable: boolean
+  ): Partial<AnalyticsData> => {
+    const bid = bidContextsRef.current.get(resolvedBidId);
+    if (!billable) return {};
+    if (!bid?.charge || (event === 'click') !== (bid.charge.billingModel === 'cpc')) return {};
+    const { amount } = bid.charge;
+    bid.charge = undefined;
+    return { adSpend: amount };
   }, []);
 
+  const getBidDimensions = useCallback((resolvedBidId: string): string[] => {
+    const bid = bidContextsRef.current.get(resolvedBidId);
+    if (!bid) return [];
+    return bid.placement ? [...bid.dimensions, bid.placement] : bid.dimensions;
+  }, []);
+
+  // Counts as shopper activity (may rotate the session); returns the ID to stamp
+  const stampIdentity = useCallback((): string => {
+    const current = identityManager.touch();
+    setIdentity(prev => (
+      prev.sessionId === current.sessionId && prev.opaqueUserId === current.opaqueUserId ? prev : current
+    ));
+    return current.opaqueUserId;
+  }, [identityManager]);
+
   const initialize = useCallback((apiKey: string) => {
     clientRef.current = initializeTopsortClient({
       apiKey,
+      // The demo's API is simulated in memory, without patching window.fetch
+      transport: createMockTransport(mockServer),
       onRequest: (endpoint, data) => {
         addLog({ type: 'request', endpoint, data });
       },
@@ -134,83 +240,131 @@ export function TopsortProvider({ children }: { children: ReactNode }) {
       },
     });
     setIsInitialized(true);
-  }, [addLog]);
+  }, [addLog, mockServer]);
 
   // Uses createAuction internally (matches documented API)
-  const runAuction = useCallback(async (request: AuctionRequest): Promise<AuctionResponse> => {
+  // Pass the placement the results are for to get its fill rate and spend
+  const runAuction = useCallback(async (request: AuctionRequest, placement?: Placement): Promise<AuctionResponse> => {
     if (!clientRef.current) throw new Error('Client not initialized');
     const response = await clientRef.current.createAuction(request);
+    const placementDimension = placement ? getPlacementDimension(placement) : undefined;
+    const placementDimensions = placementDimension ? [placementDimension] : [];
 
-    // Track ad spend from auction (sum of winner prices)
-    const totalSpend = response.results.reduce((sum, result) => {
-      return sum + result.winners.reduce((winnerSum, winner) => winnerSum + winner.winnerPrice, 0);
-    }, 0);
+    // Fill rate, what each bid promotes, and what billable winners could cost
+    const bidContexts = bidContextsRef.current;
+    const entries: AnalyticsEntry[] = [];
+    response.results.forEach((result, index) => {
+      entries.push(...withDimensions({
+        slotsRequested: request.auctions[index]?.slots ?? 0,
+        slotsFilled: result.winners.length,
+      }, placementDimensions));
 
-    setAnalytics(prev => ({
-      ...prev,
-      adSpend: prev.adSpend + totalSpend,
-    }));
+      for (const winner of result.winners) {
+        const dimensions = getWinnerDimensions(winner);
+        const isBillable = winner.billable !== false;
+        const billingModel = winner.billingModel ?? 'cpc';
+        // Same amount the server charges on the billing event
+        const amount = getChargeAmount(billingModel, winner.winnerPrice);
+        // A cached serve of a bid first won fresh leaves its charge in place
+        const charge = isBillable
+          ? { billingModel, amount }
+          : bidContexts.get(winner.resolvedBidId)?.charge;
+        bidContexts.delete(winner.resolvedBidId);
+        bidContexts.set(winner.resolvedBidId, { dimensions, placement: placementDimension, charge });
+        if (isBillable) {
+          entries.push(...withDimensions({ wonSpend: amount }, [...dimensions, ...placementDimensions]));
+        }
+      }
+    });
+    // Oldest bids are forgotten first
+    for (const resolvedBidId of bidContexts.keys()) {
+      if (bidContexts.size <= MAX_TRACKED_BIDS) break;
+      bidContexts.delete(resolvedBidId);
+    }
+
+    recordAnalytics(entries);
 
     setStatus(clientRef.current.getStatus());
     return response;
-  }, []);
+  }, [recordAnalytics]);
 
   // Uses reportEvent with documented structure: { impressions: [...] }
-  const trackImpression = useCallback((resolvedBidId: string, page: string, location: string) => {
+  const trackImpression = useCallback((resolvedBidId: string, page: string, location: string, billable: boolean = true) => {
     if (!clientRef.current) return;
-    clientRef.current.reportEvent({
+    const accepted = clientRef.current.reportEvent({
       impressions: [{
         resolvedBidId,
         id: crypto.randomUUID(),
         occurredAt: new Date().toISOString(),
+        opaqueUserId: stampIdentity(),
         placement: { path: `/${page}/${location}` },
+        ...(billable ? {} : { billable: false }),
       }],
     });
-    setAnalytics(prev => ({
-      ...prev,
-      impressions: prev.impressions + 1,
-    }));
-    addTimelineEvent('impression');
+    // Already reported for this bid and placement
+    if (!accepted.impressions?.length) return;
+
+    // Later clicks and purchases count toward the placement the bid was seen in
+    const bid = bidContextsRef.current.get(resolvedBidId);
+    const placement = getPlacementDimension({ page, location });
+    if (bid) {
+      bid.placement = placement;
+    } else {
+      bidContextsRef.current.set(resolvedBidId, { dimensions: [], placement });
+    }
+
+    recordAnalytics(withDimensions(
+      { impressions: 1, ...billBid(resolvedBidId, 'impression', billable) },
+      getBidDimensions(resolvedBidId)
+    ));
     setStatus(clientRef.current.getStatus());
-  }, [addTimelineEvent]);
+  }, [billBid, getBidDimensions, recordAnalytics, stampIdentity]);
 
-  // Viewability is tracked locally (not part of documented Topsort API)
-  // In production, this might be sent as a custom event or impression metadata
+  // Viewability is not part of the documented Topsort API; it is sent as a
+  // demo event type so viewable-impression rates are computed server-side
   const trackViewability = useCallback((
-    _resolvedBidId: string,
+    resolvedBidId: string,
     viewable: boolean,
-    _percentVisible: number,
-    _timeInViewMs: number
+    percentVisible: number,
+    timeInViewMs: number
   ) => {
     if (!clientRef.current) return;
-    // Note: Viewability tracking is demo-only, not in documented API
-    if (viewable) {
-      setAnalytics(prev => ({
-        ...prev,
-        viewableImpressions: prev.viewableImpressions + 1,
-      }));
-      addTimelineEvent('viewability');
+    const accepted = clientRef.current.reportEvent({
+      viewabilities: [{
+        resolvedBidId,
+        id: crypto.randomUUID(),
+        occurredAt: new Date().toISOString(),
+        opaqueUserId: stampIdentity(),
+        viewable,
+        percentVisible,
+        timeInViewMs: Math.round(timeInViewMs),
+      }],
+    });
+    if (viewable && accepted.viewabilities?.length) {
+      recordAnalytics(withDimensions({ viewableImpressions: 1 }, getBidDimensions(resolvedBidId)));
     }
     setStatus(clientRef.current.getStatus());
-  }, [addTimelineEvent]);
+  }, [getBidDimensions, recordAnalytics, stampIdentity]);
 
   // Uses reportEvent with documented structure: { clicks: [...] }
-  const trackClick = useCallback((resolvedBidId: string) => {
+  const trackClick = useCallback((resolvedBidId: string, billable: boolean = true) => {
     if (!clientRef.current) return;
-    clientRef.current.reportEvent({
+    const accepted = clientRef.current.reportEvent({
       clicks: [{
         resolvedBidId,
         id: crypto.randomUUID(),
         occurredAt: new Date().toISOString(),
+        opaqueUserId: stampIdentity(),
+        ...(billable ? {} : { billable: false }),
       }],
     });
-    setAnalytics(prev => ({
-      ...prev,
-      clicks: prev.clicks + 1,
-    }));
-    addTimelineEvent('click');
+    if (!accepted.clicks?.length) return;
+    recordAnalytics(withDimensions(
+      { clicks: 1, ...billBid(resolvedBidId, 'click', billable) },
+      getBidDimensions(resolvedBidId)
+    ));
     setStatus(clientRef.current.getStatus());
-  }, [addTimelineEvent]);
+  }, [billBid, getBidDimensions, recordAnalytics, stampIdentity]);
 
   // Add to cart is tracked as a click event (per Topsort docs)
   // "Click tracking fires on product clicks, including 'Add to Cart' if applicable"
@@ -218,76 +372,189 @@ export function TopsortProvider({ children }: { children: ReactNode }) {
     productId: string,
     quantity: number,
     unitPrice: number,
-    resolvedBidId?: string
+    resolvedBidId?: string,
+    billable: boolean = true
   ) => {
     if (!clientRef.current) return;
 
     // Only send click event if it's a sponsored product (has resolvedBidId)
+    let billed: Partial<AnalyticsData> = {};
     if (resolvedBidId) {
-      clientRef.current.reportEvent({
+      const accepted = clientRef.current.reportEvent({
         clicks: [{
           resolvedBidId,
           id: crypto.randomUUID(),
           occurredAt: new Date().toISOString(),
+          opaqueUserId: stampIdentity(),
+          ...(billable ? {} : { billable: false }),
         }],
       });
+      if (accepted.clicks?.length) billed = billBid(resolvedBidId, 'click', billable);
     }
 
-    setAnalytics(prev => ({
-      ...prev,
-      addToCarts: prev.addToCarts + 1,
-    }));
-    addTimelineEvent('addToCart', productId, unitPrice * quantity);
+    recordAnalytics(withDimensions(
+      { addToCarts: 1, addToCartValue: unitPrice * quantity, ...billed },
+      [...getProductDimensions(productId), ...getBidPlacement(resolvedBidId)]
+    ));
     setStatus(clientRef.current.getStatus());
-  }, [addTimelineEvent]);
+  }, [billBid, getBidPlacement, recordAnalytics, stampIdentity]);
 
   // Uses reportEvent with documented structure: { purchases: [...] }
-  const trackPurchase = useCallback((
-    productId: string,
-    quantity: number,
-    unitPrice: number,
-    resolvedBidId?: string
-  ) => {
-    if (!clientRef.current) return;
-    const revenue = unitPrice * quantity;
-    const isAttributed = !!resolvedBidId;
+  // One checkout is one purchase event, however many items it contains
+  const trackPurchase = useCallback((items: PurchaseItem[]) => {
+    if (!clientRef.current || items.length === 0) return;
+
+    const itemRevenue = (item: PurchaseItem) => item.unitPrice * item.quantity;
 
-    clientRef.current.reportEvent({
+    // Each item carries its own resolvedBidId, so every sponsored item is credited
+    const accepted = clientRef.current.reportEvent({
       purchases: [{
         id: crypto.randomUUID(),
         occurredAt: new Date().toISOString(),
-        items: [{ productId, quantity, unitPrice }],
-        ...(resolvedBidId ? { resolvedBidId } : {}),
+        opaqueUserId: stampIdentity(),
+        items,
       }],
     });
-    setAnalytics(prev => ({
-      ...prev,
-      purchases: prev.purchases + 1,
-      revenue: prev.revenue + revenue,
-      // Track attributed vs organic separately
-      attributedPurchases: prev.attributedPurchases + (isAttributed ? 1 : 0),
-      organicPurchases: prev.organicPurchases + (isAttributed ? 0 : 1),
-      attributedRevenue: prev.attributedRevenue + (isAttributed ? revenue : 0),
-      organicRevenue: prev.organicRevenue + (isAttributed ? 0 : revenue),
-    }));
-    addTimelineEvent('purchase', productId, revenue);
+    // Rejected by validation, e.g. a negative unit price
+    if (!accepted.purchases?.length) return;
+
+    // An order counts once toward each product, vendor and category it contains
+    const toOrderDelta = (orderItems: PurchaseItem[]): Partial<AnalyticsData> => {
+      const orderRevenue = orderItems.reduce((sum, item) => sum + itemRevenue(item), 0);
+      const sponsoredRevenue = orderItems
+        .filter(item => item.resolvedBidId)
+        .reduce((sum, item) => sum + itemRevenue(item), 0);
+      const hasSponsoredItem = orderItems.some(item => item.resolvedBidId);
+      return {
+        orders: 1,
+        unitsPurchased: orderItems.reduce((sum, item) => sum + item.quantity, 0),
+        revenue: orderRevenue,
+        // Track attributed vs organic separately
+        attributedOrders: hasSponsoredItem ? 1 : 0,
+        organicOrders: hasSponsoredItem ? 0 : 1,
+        attributedRevenue: sponsoredRevenue,
+        organicRevenue: orderRevenue - sponsoredRevenue,
+      };
+    };
+
+    const itemsByDimension = new Map<string, PurchaseItem[]>();
+    for (const item of items) {
+      for (const dimension of [...getProductDimensions(item.productId), ...getBidPlacement(item.resolvedBidId)]) {
+        itemsByDimension.set(dimension, [...(itemsByDimension.get(dimension) || []), item]);
+      }
+    }
+    recordAnalytics([
+      { dimension: TOTALS_DIMENSION, delta: toOrderDelta(items) },
+      ...Array.from(itemsByDimension, ([dimension, dimensionItems]) => ({
+        dimension,
+        delta: toOrderDelta(dimensionItems),
+      })),
+    ]);
     setStatus(clientRef.current.getStatus());
-  }, [addTimelineEvent]);
+  }, [getBidPlacement, recordAnalytics, stampIdentity]);
 
   const clearLogs = useCallback(() => {
     setApiLogs([]);
   }, []);
 
-  const clearAnalytics = useCallback(() => {
-    setAnalytics(initialAnalytics);
+  // Server-side attribution, for comparison with the client-side counts
+  const fetchAttributionReport = useCallback(async (options?: AttributionReportRequest) => {
+    if (!clientRef.current) throw new Error('Client not initialized');
+    return clientRef.current.getAttributionReport(options);
   }, []);
 
-  const setErrorSimulation = useCallback((enabled: boolean) => {
-    import('@/mock/mock-server').then(({ setErrorSimulation: setErr }) => {
-      setErr(enabled, 0.3);
-    });
+  // Send merges the server hasn't confirmed yet, oldest first. A failed
+  // merge stays pending and is retried on the next call
+  const sendPendingMerges = useCallback(async () => {
+    if (!clientRef.current || mergingRef.current) return;
+    mergingRef.current = true;
+    try {
+      for (const merge of identityManager.getPendingMerges()) {
+        await clientRef.current.mergeIdentity(merge);
+        identityManager.completeMerge(merge);
+      }
+    } finally {
+      mergingRef.current = false;
+    }
+  }, [identityManager]);
+
+  // Switch to a known customer and merge the anonymous history into it
+  const logIn = useCallback(async (userId: string) => {
+    setIdentity(identityManager.logIn(userId));
+    await sendPendingMerges();
+  }, [identityManager, sendPendingMerges]);
+
+  const logOut = useCallback(() => {
+    setIdentity(identityManager.logOut());
+  }, [identityManager]);
+
+  const fetchViewabilityReport = useCallback(async () => {
+    if (!clientRef.current) throw new Error('Client not initialized');
+    return clientRef.current.getViewabilityReport();
+  }, []);
+
+  // Rollups for the Dashboard's date range
+  const queryAnalytics = useCallback((
+    from: Date,
+    to: Date,
+    granularity: RollupGranularity,
+    dimension: string | null = TOTALS_DIMENSION
+  ) => {
+    return analyticsStore.query(from, to, granularity, dimension);
+  }, [analyticsStore]);
+
+  const subscribeAnalytics = useCallback((listener: AnalyticsListener) => {
+    const listeners = analyticsListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
   }, []);
 
+  const clearAnalytics = useCallback(() => {
+    analyticsStore.clear()
+      .catch(error => console.warn('[Topsort] Failed to clear analytics:', error));
+    setAnalytics(EMPTY_ANALYTICS);
+    setAnalyticsRevision(prev => prev + 1);
+  }, [analyticsStore]);
+
+  const setErrorSimulation = useCallback((enabled: boolean, failure?: SimulatedFailure) => {
+    mockServer.setErrorSimulation(enabled, 0.3, failure);
+  }, [mockServer]);
+
+  const setRateLimitPolicy = useCallback((policy: RateLimitPolicyName) => {
+    mockServer.setRateLimitPolicy(RATE_LIMIT_POLICIES[policy]);
+  }, [mockServer]);
+
+  // Restore all-time totals from previous visits. Store operations run in
+  // order, so events recorded after this read are only in the running
+  // totals and are added on top
+  useEffect(() => {
+    let cancelled = false;
+    analyticsStore.getAllTimeTotals()
+      .then(totals => {
+        if (!cancelled) setAnalytics(prev => addAnalytics(totals, prev));
+      })
+      .catch(error => console.warn('[Topsort] Failed to read analytics:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [analyticsStore]);
+
+  // Retry identity merges that failed or were held back by queued events
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    const retry = () => {
+      sendPendingMerges().catch(() => {
+        // Error is logged via context; still pending for the next attempt
+      });
+    };
+    retry();
+    const interval = setInterval(retry, MERGE_RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isInitialized, sendPendingMerges]);
+
   // Poll status periodically (only update if changed)
   useEffect(() => {
     if (!isInitialized || !clientRef.current) return;
@@ -299,8 +566,15 @@ export function TopsortProvider({ children }: { children: ReactNode }) {
           // Only update if status actually changed
           if (
             prev.apiHealth !== newStatus.apiHealth ||
+            prev.circuitState !== newStatus.circuitState ||
             prev.lastAuctionCall?.getTime() !== newStatus.lastAuctionCall?.getTime() ||
             prev.lastEventSent?.getTime() !== newStatus.lastEventSent?.getTime() ||
+            prev.queuedEvents !== newStatus.queuedEvents ||
+            prev.deadLetterEvents !== newStatus.deadLetterEvents ||
+            prev.staleAuctionServes !== newStatus.staleAuctionServes ||
+            prev.throttledUntil?.getTime() !== newStatus.throttledUntil?.getTime() ||
+            prev.throttledResponses !== newStatus.throttledResponses ||
+            prev.rateLimitRemaining !== newStatus.rateLimitRemaining ||
             prev.errors.length !== newStatus.errors.length
           ) {
             return newStatus;
@@ -319,6 +593,10 @@ export function TopsortProvider({ children }: { children: ReactNode }) {
       status,
       apiLogs,
       analytics,
+      analyticsRevision,
+      shopperLocation,
+      identity,
+      campaignStore: mockServer.campaigns,
       initialize,
       runAuction,
       trackImpression,
@@ -326,9 +604,17 @@ export function TopsortProvider({ children }: { children: ReactNode }) {
       trackClick,
       trackAddToCart,
       trackPurchase,
+      fetchAttributionReport,
+      fetchViewabilityReport,
+      queryAnalytics,
+      subscribeAnalytics,
       clearLogs,
       clearAnalytics,
       setErrorSimulation,
+      setRateLimitPolicy,
+      setShopperLocation,
+      logIn,
+      logOut,
     }}>
       {children}
     </TopsortContext.Provider>
@@ -0,0 +1,280 @@
+/**
+ * Analytics Date Range Hook
+ *
+ * Loads persisted analytics rollups for a date range and for the period of
+ * equal length right before it, so every Dashboard metric can be shown
+ * with its period-over-period change, plus the per-product, vendor and
+ * category breakdown for the range. The store is only queried when the
+ * range changes; events recorded afterwards are added in memory.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTopsortContext } from '@/context/TopsortContext';
+import {
+  EMPTY_ANALYTICS,
+  TOTALS_DIMENSION,
+  addAnalytics,
+  getBucketStart,
+  parseDimension,
+  type AnalyticsData,
+  type AnalyticsDimensionType,
+  type AnalyticsEntry,
+  type AnalyticsRollup,
+  type RollupGranularity,
+} from '@/lib/analytics-store';
+
+export type DateRangePreset = 'today' | '7d' | '30d' | 'custom';
+
+export interface DateRange {
+  from: Date;
+  to: Date;                      // Exclusive
+  granularity: RollupGranularity;
+}
+
+export interface RangeBucket {
+  label: string;
+  current: AnalyticsData;
+  previous: AnalyticsData;       // Same position in the previous period
+}
+
+export interface RangeAnalytics {
+  current: AnalyticsData;
+  previous: AnalyticsData;
+  buckets: RangeBucket[];
+}
+
+export interface BreakdownRow {
+  type: AnalyticsDimensionType;
+  id: string;                    // Product ID, vendor name or category
+  counters: AnalyticsData;
+}
+
+const PRESET_DAYS: Record<Exclude<DateRangePreset, 'custom'>, number> = {
+  'today': 1,
+  '7d': 7,
+  '30d': 30,
+};
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+// Calendar-aware, so DST changes don't shift bucket boundaries
+function addBuckets(date: Date, count: number, granularity: RollupGranularity): Date {
+  const result = new Date(date);
+  if (granularity === 'hour') {
+    result.setHours(result.getHours() + count);
+  } else {
+    result.setDate(result.getDate() + count);
+  }
+  return result;
+}
+
+function getBucketStarts({ from, to, granularity }: DateRange): Date[] {
+  const starts: Date[] = [];
+  for (let start = from; start < to; start = addBuckets(start, 1, granularity)) {
+    starts.push(start);
+  }
+  return starts;
+}
+
+function formatBucketLabel(start: Date, granularity: RollupGranularity): string {
+  return granularity === 'hour'
+    ? `${start.getHours()}:00`
+    : start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Today is shown by hour; longer ranges by day, ending today
+ */
+export function getPresetRange(preset: Exclude<DateRangePreset, 'custom'>, now: Date = new Date()): DateRange {
+  const to = addBuckets(startOfDay(now), 1, 'day');
+  return {
+    from: addBuckets(to, -PRESET_DAYS[preset], 'day'),
+    to,
+    granularity: preset === 'today' ? 'hour' : 'day',
+  };
+}
+
+/**
+ * Range covering two YYYY-MM-DD dates (inclusive), or null if invalid
+ */
+export function getCustomRange(fromDay: string, toDay: string): DateRange | null {
+  const from = new Date(`${fromDay}T00:00:00`);
+  const lastDay = new Date(`${toDay}T00:00:00`);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(lastDay.getTime()) || lastDay < from) return null;
+  return { from, to: addBuckets(lastDay, 1, 'day'), granularity: 'day' };
+}
+
+export function getPreviousRange(range: DateRange): DateRange {
+  const length = getBucketStarts(range).length;
+  return { ...range, from: addBuckets(range.from, -length, range.granularity), to: range.from };
+}
+
+export function formatDayInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Percent change from the previous period, or null when there is nothing
+ * to compare against.
+ */
+export function getPercentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+type QueryAnalytics = ReturnType<typeof useTopsortContext>['queryAnalytics'];
+
+// Counters per bucket start (epoch ms)
+type BucketCounters = Map<number, AnalyticsData>;
+
+function toBucketCounters(rollups: AnalyticsRollup[]): BucketCounters {
+  return new Map(rollups.map(rollup => [rollup.start, rollup.counters]));
+}
+
+function buildRangeAnalytics(
+  range: DateRange,
+  previousRange: DateRange,
+  byStart: BucketCounters,
+  previousByStart: BucketCounters
+): RangeAnalytics {
+  const previousStarts = getBucketStarts(previousRange);
+
+  const buckets = getBucketStarts(range).map((start, index) => ({
+    label: formatBucketLabel(start, range.granularity),
+    current: byStart.get(start.getTime()) ?? EMPTY_ANALYTICS,
+    previous: previousByStart.get(previousStarts[index]?.getTime()) ?? EMPTY_ANALYTICS,
+  }));
+
+  const sum = (counters: BucketCounters) =>
+    Array.from(counters.values()).reduce(addAnalytics, EMPTY_ANALYTICS);
+  return { current: sum(byStart), previous: sum(previousByStart), buckets };
+}
+
+/**
+ * Query the store once per range (and after it is cleared), then apply
+ * entries recorded since in memory. Entries recorded while the query is
+ * in flight are not in its result, so they are applied once it resolves.
+ */
+function useLiveQuery<T>(
+  range: DateRange,
+  initial: T,
+  load: (range: DateRange, query: QueryAnalytics) => Promise<T>,
+  apply: (value: T, range: DateRange, entries: AnalyticsEntry[], at: Date) => T
+): T {
+  const { queryAnalytics, subscribeAnalytics, analyticsRevision } = useTopsortContext();
+  const [value, setValue] = useState<T>(initial);
+
+  const fromMs = range.from.getTime();
+  const toMs = range.to.getTime();
+  const { granularity } = range;
+
+  useEffect(() => {
+    let cancelled = false;
+    const current: DateRange = { from: new Date(fromMs), to: new Date(toMs), granularity };
+    let loaded: T | null = null;
+    const missed: Array<[AnalyticsEntry[], Date]> = [];
+
+    const unsubscribe = subscribeAnalytics((entries, at) => {
+      if (at.getTime() < fromMs || at.getTime() >= toMs) return;
+      if (loaded === null) {
+        missed.push([entries, at]);
+        return;
+      }
+      loaded = apply(loaded, current, entries, at);
+      setValue(loaded);
+    });
+
+    load(current, queryAnalytics)
+      .then(result => {
+        if (cancelled) return;
+        loaded = missed.reduce((counters, [entries, at]) => apply(counters, current, entries, at), result);
+        setValue(loaded);
+      })
+      .catch(error => console.warn('[Topsort] Failed to load analytics:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [fromMs, toMs, granularity, load, apply, queryAnalytics, subscribeAnalytics, analyticsRevision]);
+
+  return value;
+}
+
+interface RangeCounters {
+  byStart: BucketCounters;
+  previousByStart: BucketCounters;
+}
+
+async function loadRangeCounters(range: DateRange, query: QueryAnalytics): Promise<RangeCounters> {
+  const previous = getPreviousRange(range);
+  const [rollups, previousRollups] = await Promise.all([
+    query(range.from, range.to, range.granularity),
+    query(previous.from, previous.to, range.granularity),
+  ]);
+  return { byStart: toBucketCounters(rollups), previousByStart: toBucketCounters(previousRollups) };
+}
+
+// Events are recorded now, so only ever land in the current range
+function applyRangeEntries(counters: RangeCounters, range: DateRange, entries: AnalyticsEntry[], at: Date): RangeCounters {
+  const byStart = new Map(counters.byStart);
+  const start = getBucketStart(at, range.granularity);
+  for (const { dimension, delta } of entries) {
+    if (dimension !== TOTALS_DIMENSION) continue;
+    byStart.set(start, addAnalytics(byStart.get(start) ?? EMPTY_ANALYTICS, delta));
+  }
+  return { ...counters, byStart };
+}
+
+const EMPTY_RANGE_COUNTERS: RangeCounters = { byStart: new Map(), previousByStart: new Map() };
+
+export function useAnalyticsRange(range: DateRange): RangeAnalytics {
+  const counters = useLiveQuery(range, EMPTY_RANGE_COUNTERS, loadRangeCounters, applyRangeEntries);
+
+  const fromMs = range.from.getTime();
+  const toMs = range.to.getTime();
+  const { granularity } = range;
+
+  return useMemo(() => {
+    const current: DateRange = { from: new Date(fromMs), to: new Date(toMs), granularity };
+    return buildRangeAnalytics(current, getPreviousRange(current), counters.byStart, counters.previousByStart);
+  }, [fromMs, toMs, granularity, counters]);
+}
+
+// Counters per breakdown dimension, summed over the range
+type DimensionCounters = Map<string, AnalyticsData>;
+
+function addDimension(counters: DimensionCounters, dimension: string, delta: Partial<AnalyticsData>): void {
+  if (!parseDimension(dimension)) return;
+  counters.set(dimension, addAnalytics(counters.get(dimension) ?? EMPTY_ANALYTICS, delta));
+}
+
+async function loadDimensionCounters(range: DateRange, query: QueryAnalytics): Promise<DimensionCounters> {
+  const rollups = await query(range.from, range.to, range.granularity, null);
+  const counters: DimensionCounters = new Map();
+  for (const rollup of rollups) addDimension(counters, rollup.dimension, rollup.counters);
+  return counters;
+}
+
+function applyDimensionEntries(counters: DimensionCounters, _range: DateRange, entries: AnalyticsEntry[]): DimensionCounters {
+  const updated = new Map(counters);
+  for (const { dimension, delta } of entries) addDimension(updated, dimension, delta);
+  return updated;
+}
+
+const EMPTY_DIMENSION_COUNTERS: DimensionCounters = new Map();
+
+export function useAnalyticsBreakdown(range: DateRange): BreakdownRow[] {
+  const counters = useLiveQuery(range, EMPTY_DIMENSION_COUNTERS, loadDimensionCounters, applyDimensionEntries);
+
+  return useMemo(() => Array.from(counters).flatMap(([dimension, values]) => {
+    const parsed = parseDimension(dimension);
+    return parsed ? [{ ...parsed, counters: values }] : [];
+  }), [counters]);
+}
@@ -0,0 +1,156 @@
+/**
+ * Viewability Tracking Hook
+ *
+ * Measures whether a placement meets a viewability standard: a minimum
+ * share of the element in the viewport for a minimum time. Time in view
+ * accumulates across separate stretches (scrolling away and back counts),
+ * and only while the tab is visible, so backgrounded tabs never produce
+ * viewable impressions.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+export interface ViewabilityStandard {
+  minPercentVisible: number;     // 0-100
+  minTimeInViewMs: number;
+}
+
+export type ViewabilityStandardName = 'iab-display' | 'iab-large-display' | 'iab-video';
+
+export const VIEWABILITY_STANDARDS: Record<ViewabilityStandardName, ViewabilityStandard> = {
+  'iab-display': { minPercentVisible: 50, minTimeInViewMs: 1000 },
+  // Display ads of 242,500 pixels or more
+  'iab-large-display': { minPercentVisible: 30, minTimeInViewMs: 1000 },
+  'iab-video': { minPercentVisible: 50, minTimeInViewMs: 2000 },
+};
+
+export interface ViewabilityMeasurement {
+  viewable: boolean;
+  percentVisible: number;
+  timeInViewMs: number;          // Accumulated so far
+}
+
+export interface UseViewabilityOptions {
+  enabled?: boolean;
+  standard?: ViewabilityStandardName | ViewabilityStandard;  // Pass an object for a custom standard
+  resetKey?: unknown;            // Start a fresh measurement when this changes (e.g. a new resolvedBidId)
+  onImpression?: () => void;     // First time the placement meets the visibility threshold
+  onMeasurement?: (measurement: ViewabilityMeasurement) => void;
+}
+
+// Shorter stretches in view aren't worth reporting as non-viewable
+const MIN_REPORTED_TIME_MS = 200;
+
+const NOT_VIEWABLE = Symbol('not-viewable');
+
+function getThresholds(minPercentVisible: number): number[] {
+  const thresholds = new Set([0, 0.25, 0.5, 0.75, 1, minPercentVisible / 100]);
+  return Array.from(thresholds).sort((a, b) => a - b);
+}
+
+export function useViewability<T extends Element = HTMLDivElement>({
+  enabled = true,
+  standard = 'iab-display',
+  resetKey,
+  onImpression,
+  onMeasurement,
+}: UseViewabilityOptions = {}): { ref: (element: T | null) => void; isViewable: boolean } {
+  // Callback ref, so the placement is observed even if it mounts late
+  const [element, setElement] = useState<T | null>(null);
+  const [viewableFor, setViewableFor] = useState<unknown>(NOT_VIEWABLE);
+
+  // Latest callbacks, so inline handlers don't restart the measurement
+  const callbacks = useRef({ onImpression, onMeasurement });
+  useEffect(() => {
+    callbacks.current = { onImpression, onMeasurement };
+  });
+
+  const { minPercentVisible, minTimeInViewMs } =
+    typeof standard === 'string' ? VIEWABILITY_STANDARDS[standard] : standard;
+
+  useEffect(() => {
+    if (!enabled || !element) return;
+
+    let impressionTracked = false;
+    let viewable = false;
+    let inView = false;
+    let percentVisible = 0;
+    let accumulatedMs = 0;
+    let countingSince: number | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const isPageVisible = () => document.visibilityState === 'visible';
+
+    const trackImpressionOnce = () => {
+      if (impressionTracked || !inView || !isPageVisible()) return;
+      impressionTracked = true;
+      callbacks.current.onImpression?.();
+    };
+
+    const pause = (now: number) => {
+      clearTimeout(timer);
+      if (countingSince === null) return;
+      accumulatedMs += now - countingSince;
+      countingSince = null;
+    };
+
+    const markViewable = () => {
+      pause(Date.now());
+      viewable = true;
+      setViewableFor(resetKey);
+      callbacks.current.onMeasurement?.({ viewable: true, percentVisible, timeInViewMs: accumulatedMs });
+    };
+
+    const resume = (now: number) => {
+      if (viewable || countingSince !== null || !inView || !isPageVisible()) return;
+      countingSince = now;
+      timer = setTimeout(markViewable, Math.max(0, minTimeInViewMs - accumulatedMs));
+    };
+
+    const reportPartial = () => {
+      if (viewable || accumulatedMs < MIN_REPORTED_TIME_MS) return;
+      callbacks.current.onMeasurement?.({ viewable: false, percentVisible, timeInViewMs: accumulatedMs });
+    };
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        const now = Date.now();
+        percentVisible = Math.round(entry.intersectionRatio * 100);
+        const nowInView = entry.isIntersecting && percentVisible >= minPercentVisible;
+        if (nowInView === inView) return;
+
+        inView = nowInView;
+        if (inView) {
+          trackImpressionOnce();
+          resume(now);
+        } else {
+          pause(now);
+          reportPartial();
+        }
+      },
+      { threshold: getThresholds(minPercentVisible) }
+    );
+
+    const handleVisibilityChange = () => {
+      const now = Date.now();
+      if (isPageVisible()) {
+        // An element left in view while the tab was hidden counts from now
+        trackImpressionOnce();
+        resume(now);
+      } else {
+        pause(now);
+      }
+    };
+
+    observer.observe(element);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearTimeout(timer);
+    };
+  }, [element, enabled, minPercentVisible, minTimeInViewMs, resetKey]);
+
+  return { ref: setElement, isViewable: enabled && viewableFor === resetKey };
+}
@@ -0,0 +1,331 @@
+/**
+ * Persisted Analytics Store
+ *
+ * Keeps analytics counters in IndexedDB as hourly and daily rollups, so
+ * the Dashboard survives reloads and can report on past date ranges.
+ * Hourly rollups are kept for a week and daily rollups for a year; the
+ * site-wide totals also go into one all-time record that is never pruned.
+ * When IndexedDB is unavailable the store falls back to memory.
+ */
+
+// Analytics data for funnel and charts
+export interface AnalyticsData {
+  slotsRequested: number;       // Sponsored slots asked for in auctions
+  slotsFilled: number;          // Slots an auction returned a winner for
+  impressions: number;
+  viewableImpressions: number;
+  clicks: number;
+  addToCarts: number;
+  addToCartValue: number;
+  orders: number;               // Completed checkouts (one purchase event each)
+  unitsPurchased: number;       // Sum of item quantities across orders
+  revenue: number;
+  adSpend: number;              // Billed on the click (CPC) or impression (CPM) of a winning bid
+  wonSpend: number;             // What winning bids would cost if every one were billed
+  // Separate tracking for attribution analysis
+  attributedOrders: number;     // Orders with at least one sponsored item
+  organicOrders: number;        // Orders with no sponsored items
+  attributedRevenue: number;    // Revenue from sponsored items only
+  organicRevenue: number;
+}
+
+export const EMPTY_ANALYTICS: AnalyticsData = {
+  slotsRequested: 0,
+  slotsFilled: 0,
+  impressions: 0,
+  viewableImpressions: 0,
+  clicks: 0,
+  addToCarts: 0,
+  addToCartValue: 0,
+  orders: 0,
+  unitsPurchased: 0,
+  revenue: 0,
+  adSpend: 0,
+  wonSpend: 0,
+  attributedOrders: 0,
+  organicOrders: 0,
+  attributedRevenue: 0,
+  organicRevenue: 0,
+};
+
+export type RollupGranularity = 'hour' | 'day';
+
+export type AnalyticsDimensionType = 'product' | 'vendor' | 'category' | 'placement';
+
+// '' is the site-wide totals; breakdowns use `${type}:${id}`
+export const TOTALS_DIMENSION = '';
+
+export interface AnalyticsRollup {
+  key: string;
+  granularity: RollupGranularity;
+  start: number;                // Local start of the hour/day (epoch ms)
+  dimension: string;            // TOTALS_DIMENSION or a breakdown key, e.g. 'placement:/catalog/product-grid'
+  counters: AnalyticsData;
+}
+
+export interface AnalyticsEntry {
+  dimension: string;
+  delta: Partial<AnalyticsData>;
+}
+
+export interface AnalyticsStoreOptions {
+  dbName?: string;
+  hourlyRetentionDays?: number;
+  dailyRetentionDays?: number;
+}
+
+const DEFAULT_OPTIONS: Required<AnalyticsStoreOptions> = {
+  dbName: 'topsort-analytics',
+  hourlyRetentionDays: 7,
+  dailyRetentionDays: 366,
+};
+
+const STORE_NAME = 'rollups';
+const START_INDEX = 'by_granularity_start';
+const ALL_TIME_KEY = 'all-time';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Has no granularity or start, so the start index (and prune) skips it
+interface AllTimeRecord {
+  key: typeof ALL_TIME_KEY;
+  counters: AnalyticsData;
+}
+
+export function addAnalytics(base: AnalyticsData, delta: Partial<AnalyticsData>): AnalyticsData {
+  // Rollups stored before a counter existed don't have it
+  const result = { ...EMPTY_ANALYTICS, ...base };
+  for (const key of Object.keys(delta) as Array<keyof AnalyticsData>) {
+    result[key] += delta[key] ?? 0;
+  }
+  return result;
+}
+
+export function sumRollups(rollups: AnalyticsRollup[]): AnalyticsData {
+  return rollups.reduce((total, rollup) => addAnalytics(total, rollup.counters), EMPTY_ANALYTICS);
+}
+
+export function getBucketStart(date: Date, granularity: RollupGranularity): number {
+  const start = new Date(date);
+  start.setMinutes(0, 0, 0);
+  if (granularity === 'day') start.setHours(0);
+  return start.getTime();
+}
+
+export function toDimension(type: AnalyticsDimensionType, id: string): string {
+  return `${type}:${id}`;
+}
+
+export function parseDimension(dimension: string): { type: AnalyticsDimensionType; id: string } | null {
+  const separator = dimension.indexOf(':');
+  if (separator === -1) return null;
+  const type = dimension.slice(0, separator);
+  if (type !== 'product' && type !== 'vendor' && type !== 'category' && type !== 'placement') return null;
+  return { type, id: dimension.slice(separator + 1) };
+}
+
+function getRollupKey(granularity: RollupGranularity, start: number, dimension: string): string {
+  return `${granularity}|${start}|${dimension}`;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex(START_INDEX, ['granularity', 'start']);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class AnalyticsStore {
+  private options: Required<AnalyticsStoreOptions>;
+  private db: Promise<IDBDatabase | null>;
+  // Used when IndexedDB is unavailable
+  private memory = new Map<string, AnalyticsRollup>();
+  private memoryAllTime: AnalyticsData = EMPTY_ANALYTICS;
+  // Operations run in call order, so a query sees every earlier record()
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: AnalyticsStoreOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.db = typeof indexedDB === 'undefined'
+      ? Promise.resolve(null)
+      : openDatabase(this.options.dbName).catch(() => null);
+    void this.enqueue(async () => {
+      await this.backfillAllTime();
+      await this.prune();
+    });
+  }
+
+  /**
+   * Add each entry to the hourly and daily rollups containing `at`.
+   * Entries for the same dimension are combined, and the totals are also
+   * added to the all-time record.
+   */
+  record(entries: AnalyticsEntry[], at: Date = new Date()): Promise<void> {
+    return this.enqueue(async () => {
+      const byDimension = new Map<string, AnalyticsData>();
+      for (const { dimension, delta } of entries) {
+        byDimension.set(dimension, addAnalytics(byDimension.get(dimension) ?? EMPTY_ANALYTICS, delta));
+      }
+      const updates = Array.from(byDimension).flatMap(([dimension, delta]) =>
+        (['hour', 'day'] as const).map(granularity => {
+          const start = getBucketStart(at, granularity);
+          return { key: getRollupKey(granularity, start, dimension), granularity, start, dimension, delta };
+        })
+      );
+      const totalsDelta = byDimension.get(TOTALS_DIMENSION);
+
+      const db = await this.db;
+      if (!db) {
+        for (const { key, granularity, start, dimension, delta } of updates) {
+          const current = this.memory.get(key);
+          this.memory.set(key, {
+            key, granularity, start, dimension,
+            counters: addAnalytics(current?.counters ?? EMPTY_ANALYTICS, delta),
+          });
+        }
+        if (totalsDelta) this.memoryAllTime = addAnalytics(this.memoryAllTime, totalsDelta);
+        return;
+      }
+
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      for (const { key, granularity, start, dimension, delta } of updates) {
+        const current = await promisify<AnalyticsRollup | undefined>(store.get(key));
+        store.put({
+          key, granularity, start, dimension,
+          counters: addAnalytics(current?.counters ?? EMPTY_ANALYTICS, delta),
+        } satisfies AnalyticsRollup);
+      }
+      if (totalsDelta) {
+        const allTime = await promisify<AllTimeRecord | undefined>(store.get(ALL_TIME_KEY));
+        store.put({
+          key: ALL_TIME_KEY,
+          counters: addAnalytics(allTime?.counters ?? EMPTY_ANALYTICS, totalsDelta),
+        } satisfies AllTimeRecord);
+      }
+      await transactionDone(tx);
+    });
+  }
+
+  /**
+   * Rollups starting within [from, to), oldest first. Pass a dimension
+   * to get its rollups instead of the totals, or null for every dimension.
+   */
+  query(
+    from: Date,
+    to: Date,
+    granularity: RollupGranularity,
+    dimension: string | null = TOTALS_DIMENSION
+  ): Promise<AnalyticsRollup[]> {
+    return this.enqueue(async () => {
+      const fromMs = getBucketStart(from, granularity);
+      const toMs = to.getTime();
+      const matches = (rollup: AnalyticsRollup) =>
+        rollup.granularity === granularity &&
+        rollup.start >= fromMs &&
+        rollup.start < toMs &&
+        (dimension === null || rollup.dimension === dimension);
+
+      const db = await this.db;
+      const rollups = db
+        ? await promisify<AnalyticsRollup[]>(
+            db.transaction(STORE_NAME).objectStore(STORE_NAME).index(START_INDEX).getAll(
+              IDBKeyRange.bound([granularity, fromMs], [granularity, toMs], false, true)
+            )
+          )
+        : Array.from(this.memory.values());
+
+      return rollups.filter(matches).sort((a, b) => a.start - b.start);
+    });
+  }
+
+  /** Site-wide totals since the store was created (or last cleared) */
+  getAllTimeTotals(): Promise<AnalyticsData> {
+    return this.enqueue(async () => {
+      const db = await this.db;
+      if (!db) return this.memoryAllTime;
+      const allTime = await promisify<AllTimeRecord | undefined>(
+        db.transaction(STORE_NAME).objectStore(STORE_NAME).get(ALL_TIME_KEY)
+      );
+      return addAnalytics(EMPTY_ANALYTICS, allTime?.counters ?? {});
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      this.memory.clear();
+      this.memoryAllTime = EMPTY_ANALYTICS;
+      const db = await this.db;
+      if (!db) return;
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).clear();
+      await transactionDone(tx);
+    });
+  }
+
+  /** Seed the all-time record from daily rollups stored before it existed */
+  private async backfillAllTime(): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    if (await promisify(store.getKey(ALL_TIME_KEY)) === undefined) {
+      const daily = await promisify<AnalyticsRollup[]>(
+        store.index(START_INDEX).getAll(IDBKeyRange.bound(['day', 0], ['day', Infinity]))
+      );
+      store.put({
+        key: ALL_TIME_KEY,
+        counters: sumRollups(daily.filter(rollup => rollup.dimension === TOTALS_DIMENSION)),
+      } satisfies AllTimeRecord);
+    }
+    await transactionDone(tx);
+  }
+
+  private async prune(now: number = Date.now()): Promise<void> {
+    const cutoffs: Record<RollupGranularity, number> = {
+      hour: now - this.options.hourlyRetentionDays * DAY_MS,
+      day: now - this.options.dailyRetentionDays * DAY_MS,
+    };
+
+    for (const [key, rollup] of this.memory) {
+      if (rollup.start < cutoffs[rollup.granularity]) this.memory.delete(key);
+    }
+
+    const db = await this.db;
+    if (!db) return;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const index = tx.objectStore(STORE_NAME).index(START_INDEX);
+    for (const granularity of ['hour', 'day'] as const) {
+      const range = IDBKeyRange.bound([granularity, 0], [granularity, cutoffs[granularity]], false, true);
+      const keys = await promisify(index.getAllKeys(range));
+      keys.forEach(key => tx.objectStore(STORE_NAME).delete(key));
+    }
+    await transactionDone(tx);
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    // Keep the chain going even if this operation fails
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Product Search Matching
+ * Case-insensitive substring match on a product's name and description.
+ * The catalog search box and the mock's keyword auctions both use it, so
+ * every keyword-auction winner is among the products the catalog shows.
+ */
+
+import type { Product } from '../types/topsort';
+
+/**
+ * Whether a product matches a search query. An empty query matches
+ * everything.
+ */
+export function matchesSearchQuery(product: Pick<Product, 'name' | 'description'>, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return product.name.toLowerCase().includes(needle) || product.description.toLowerCase().includes(needle);
+}
@@ -0,0 +1,277 @@
+/**
+ * Mock Attribution Engine
+ *
+ * Keeps the impressions and clicks reported for each shopper and decides
+ * server-side which ads earn credit for a purchase. A touchpoint only
+ * counts for a purchased product its bid promoted, and only within the
+ * lookback window for its kind (clicks and views have separate windows).
+ * Nothing is kept past the longest window a report may ask for, so the
+ * report covers purchases from the last MAX_LOOKBACK_DAYS.
+ */
+
+import type {
+  AttributionModel,
+  AttributionReport,
+  AttributionReportRequest,
+  CampaignAttribution,
+  PurchaseItem,
+} from '../types/topsort';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Events reported without an opaqueUserId are pooled under one shopper
+const ANONYMOUS_USER = 'anonymous';
+
+export const DEFAULT_ATTRIBUTION_SETTINGS: Required<AttributionReportRequest> = {
+  model: 'last-click',
+  clickLookbackDays: 14,
+  viewLookbackDays: 1,
+};
+
+// Longest lookback a report may request; also how long events are kept
+export const MAX_LOOKBACK_DAYS = 30;
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = ['last-click', 'last-touch', 'linear'];
+
+interface BidRecord {
+  campaignId: string;
+  vendor: string;
+  productIds: string[];          // Purchases of these products can be credited to the bid
+}
+
+interface StoredBid extends BidRecord {
+  registeredAt: number;
+}
+
+interface Touchpoint {
+  kind: 'impression' | 'click';
+  resolvedBidId: string;
+  occurredAt: number;
+}
+
+interface PurchaseRecord {
+  userId: string;
+  occurredAt: number;
+  items: PurchaseItem[];         // Item resolvedBidIds are what the client believed
+}
+
+interface Credit {
+  resolvedBidId: string;
+  share: number;
+}
+
+function parseTime(occurredAt: string | undefined): number {
+  const time = occurredAt ? Date.parse(occurredAt) : NaN;
+  return Number.isNaN(time) ? Date.now() : time;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class AttributionEngine {
+  private bids = new Map<string, StoredBid>(); // Insertion order is registration order
+  private touchpoints = new Map<string, Touchpoint[]>(); // userId -> touchpoints
+  private purchases: PurchaseRecord[] = [];
+
+  registerResolvedBid(resolvedBidId: string, record: BidRecord, now = Date.now()): void {
+    this.prune(now);
+    this.bids.delete(resolvedBidId);
+    this.bids.set(resolvedBidId, { ...record, registeredAt: now });
+  }
+
+  recordTouchpoint(
+    kind: Touchpoint['kind'],
+    event: { resolvedBidId: string; occurredAt?: string; opaqueUserId?: string },
+    now = Date.now()
+  ): void {
+    this.prune(now);
+
+    const userId = event.opaqueUserId || ANONYMOUS_USER;
+    const userTouchpoints = this.touchpoints.get(userId) || [];
+    userTouchpoints.push({ kind, resolvedBidId: event.resolvedBidId, occurredAt: parseTime(event.occurredAt) });
+    this.touchpoints.set(userId, userTouchpoints);
+  }
+
+  recordPurchase(
+    purchase: {
+      occurredAt?: string;
+      opaqueUserId?: string;
+      items?: PurchaseItem[];
+      resolvedBidId?: string;
+    },
+    now = Date.now()
+  ): void {
+    this.prune(now);
+
+    // A legacy order-level bid applies to the items that bid promoted
+    const orderBid = purchase.resolvedBidId ? this.bids.get(purchase.resolvedBidId) : undefined;
+    const items = (purchase.items || []).map(item => (
+      !item.resolvedBidId && orderBid?.productIds.includes(item.productId)
+        ? { ...item, resolvedBidId: purchase.resolvedBidId }
+        : item
+    ));
+
+    this.purchases.push({
+      userId: purchase.opaqueUserId || ANONYMOUS_USER,
+      occurredAt: parseTime(purchase.occurredAt),
+      items,
+    });
+  }
+
+  /**
+   * Re-key an anonymous shopper's events under a known ID after login.
+   * Returns the number of events moved.
+   */
+  mergeUserIds(fromId: string, toId: string): number {
+    if (fromId === toId) return 0;
+    let merged = 0;
+
+    const fromTouchpoints = this.touchpoints.get(fromId);
+    if (fromTouchpoints) {
+      this.touchpoints.set(toId, [...(this.touchpoints.get(toId) || []), ...fromTouchpoints]);
+      this.touchpoints.delete(fromId);
+      merged += fromTouchpoints.length;
+    }
+
+    for (const purchase of this.purchases) {
+      if (purchase.userId === fromId) {
+        purchase.userId = toId;
+        merged++;
+      }
+    }
+
+    return merged;
+  }
+
+  /** Drop bids, touchpoints and purchases older than the longest lookback */
+  private prune(now: number): void {
+    const cutoff = now - MAX_LOOKBACK_DAYS * DAY_MS;
+
+    for (const [resolvedBidId, bid] of this.bids) {
+      if (bid.registeredAt >= cutoff) break;
+      this.bids.delete(resolvedBidId);
+    }
+
+    for (const [userId, userTouchpoints] of this.touchpoints) {
+      const recent = userTouchpoints.filter(touch => touch.occurredAt >= cutoff);
+      if (recent.length === 0) {
+        this.touchpoints.delete(userId);
+      } else if (recent.length < userTouchpoints.length) {
+        this.touchpoints.set(userId, recent);
+      }
+    }
+
+    this.purchases = this.purchases.filter(purchase => purchase.occurredAt >= cutoff);
+  }
+
+  clear(): void {
+    this.bids.clear();
+    this.touchpoints.clear();
+    this.purchases = [];
+  }
+
+  /**
+   * Credit shares for one purchased item. Shares sum to 1 when the item is
+   * attributed and the list is empty when it is organic.
+   */
+  private getItemCredits(
+    item: PurchaseItem,
+    candidates: Touchpoint[],
+    purchasedAt: number,
+    settings: Required<AttributionReportRequest>
+  ): Credit[] {
+    const eligible = candidates.filter(touch => {
+      const bid = this.bids.get(touch.resolvedBidId);
+      if (!bid || !bid.productIds.includes(item.productId)) return false;
+      const age = purchasedAt - touch.occurredAt;
+      const lookbackDays = touch.kind === 'click' ? settings.clickLookbackDays : settings.viewLookbackDays;
+      return age >= 0 && age <= lookbackDays * DAY_MS;
+    });
+
+    // Most recent first; a click beats an impression at the same instant
+    const byRecency = [...eligible].sort((a, b) =>
+      b.occurredAt - a.occurredAt || Number(b.kind === 'click') - Number(a.kind === 'click')
+    );
+
+    switch (settings.model) {
+      case 'last-click': {
+        const lastClick = byRecency.find(touch => touch.kind === 'click');
+        return lastClick ? [{ resolvedBidId: lastClick.resolvedBidId, share: 1 }] : [];
+      }
+      case 'last-touch':
+        return byRecency.length > 0 ? [{ resolvedBidId: byRecency[0].resolvedBidId, share: 1 }] : [];
+      case 'linear':
+        return eligible.map(touch => ({ resolvedBidId: touch.resolvedBidId, share: 1 / eligible.length }));
+    }
+  }
+
+  buildReport(request: AttributionReportRequest = {}): AttributionReport {
+    const settings = { ...DEFAULT_ATTRIBUTION_SETTINGS, ...request };
+    const byCampaign = new Map<string, CampaignAttribution>();
+
+    let attributedPurchases = 0;
+    let totalRevenue = 0;
+    let attributedRevenue = 0;
+    let mismatchedPurchases = 0;
+
+    for (const purchase of this.purchases) {
+      const candidates = this.touchpoints.get(purchase.userId) || [];
+      let isAttributed = false;
+      let isMismatched = false;
+
+      for (const item of purchase.items) {
+        const itemRevenue = item.quantity * item.unitPrice;
+        totalRevenue += itemRevenue;
+
+        const credits = this.getItemCredits(item, candidates, purchase.occurredAt, settings);
+        const creditedBids = new Set(credits.map(credit => credit.resolvedBidId));
+        if (creditedBids.size > 0) isAttributed = true;
+
+        // The client either named a bid the server didn't credit, or none at all
+        const clientAgrees = item.resolvedBidId
+          ? creditedBids.has(item.resolvedBidId)
+          : creditedBids.size === 0;
+        if (!clientAgrees) isMismatched = true;
+
+        for (const credit of credits) {
+          const bid = this.bids.get(credit.resolvedBidId);
+          if (!bid) continue;
+          attributedRevenue += itemRevenue * credit.share;
+
+          const entry = byCampaign.get(bid.campaignId) || {
+            campaignId: bid.campaignId,
+            vendor: bid.vendor,
+            attributedPurchases: 0,
+            attributedRevenue: 0,
+          };
+          entry.attributedPurchases += credit.share / purchase.items.length;
+          entry.attributedRevenue += itemRevenue * credit.share;
+          byCampaign.set(bid.campaignId, entry);
+        }
+      }
+
+      if (isAttributed) attributedPurchases++;
+      if (isMismatched) mismatchedPurchases++;
+    }
+
+    const campaigns = Array.from(byCampaign.values())
+      .map(entry => ({
+        ...entry,
+        attributedPurchases: Math.round(entry.attributedPurchases * 100) / 100,
+        attributedRevenue: roundCurrency(entry.attributedRevenue),
+      }))
+      .sort((a, b) => b.attributedRevenue - a.attributedRevenue);
+
+    return {
+      ...settings,
+      generatedAt: new Date().toISOString(),
+      totalPurchases: this.purchases.length,
+      attributedPurchases,
+      totalRevenue: roundCurrency(totalRevenue),
+      attributedRevenue: roundCurrency(attributedRevenue),
+      mismatchedPurchases,
+      campaigns,
+    };
+  }
+}
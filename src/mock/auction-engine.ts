@@ -0,0 +1,96 @@
+/**
+ * Mock Auction Engine
+ *
+ * Runs generalized second-price (GSP) auctions over campaign bids.
+ * Candidates are ranked by ad rank (bid × quality score) and each winner
+ * pays the smallest amount that would still keep its position.
+ */
+
+import type { Product } from '../types/topsort';
+
+// Floor price for any sponsored listing (USD CPC)
+export const DEFAULT_RESERVE_PRICE = 0.10;
+
+// Banner placements are premium inventory with a higher floor
+export const BANNER_RESERVE_PRICE = 0.25;
+
+// Amount added on top of the runner-up's price
+const PRICE_INCREMENT = 0.01;
+
+export interface AuctionCandidate {
+  campaignId: string;
+  itemId: string;                // Product ID for listings, banner ID for banners
+  bid: number;
+  qualityScore: number;
+}
+
+export interface AuctionOutcome extends AuctionCandidate {
+  rank: number;
+  adRank: number;
+  price: number;
+}
+
+export interface AuctionOptions {
+  slots: number;
+  reservePrice?: number;
+}
+
+/**
+ * Quality score in the range (0, 2]: product rating and review volume form
+ * the base, scaled by a relevance multiplier supplied by the caller
+ * (e.g. personalization). A score of 1 is an average listing.
+ */
+export function computeQualityScore(product: Product, relevance: number = 1): number {
+  const ratingFactor = product.rating / 5;
+  // Saturates around ~5000 reviews
+  const volumeFactor = Math.min(1, Math.log10(product.reviewCount + 1) / 3.7);
+  const base = 0.5 + ratingFactor * 0.3 + volumeFactor * 0.2;
+  return Math.min(2, Math.max(0.01, base * relevance));
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Run a generalized second-price auction.
+ *
+ * - Bids below the reserve price are discarded.
+ * - Only the strongest bid per item competes (one placement per item).
+ * - Winner i pays (adRank of i+1 / qualityScore of i) + increment,
+ *   clamped between the reserve price and its own bid.
+ */
+export function runSecondPriceAuction(
+  candidates: AuctionCandidate[],
+  options: AuctionOptions
+): AuctionOutcome[] {
+  const reservePrice = options.reservePrice ?? DEFAULT_RESERVE_PRICE;
+
+  const bestByItem = new Map<string, AuctionCandidate & { adRank: number }>();
+  for (const candidate of candidates) {
+    if (candidate.bid < reservePrice || candidate.qualityScore <= 0) continue;
+
+    const adRank = candidate.bid * candidate.qualityScore;
+    const existing = bestByItem.get(candidate.itemId);
+    if (!existing || adRank > existing.adRank) {
+      bestByItem.set(candidate.itemId, { ...candidate, adRank });
+    }
+  }
+
+  // Tie-break on raw bid so results are deterministic
+  const ranked = Array.from(bestByItem.values())
+    .sort((a, b) => b.adRank - a.adRank || b.bid - a.bid);
+
+  return ranked.slice(0, options.slots).map((entry, index) => {
+    const runnerUp = ranked[index + 1];
+    const secondPrice = runnerUp
+      ? runnerUp.adRank / entry.qualityScore + PRICE_INCREMENT
+      : reservePrice;
+
+    return {
+      ...entry,
+      rank: index + 1,
+      price: roundPrice(Math.min(entry.bid, Math.max(reservePrice, secondPrice))),
+    };
+  });
+}
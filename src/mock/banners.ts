@@ -0,0 +1,91 @@
+/**
+ * Mock Banner Inventory
+ * Banner creatives vendors run against the storefront's banner slots
+ */
+
+import type { Winner } from '../types/topsort';
+
+export type BannerAspectRatio = '4:1' | '6:1';
+
+export interface MockBanner {
+  id: string;
+  campaignId: string;            // Budget is drawn from this campaign
+  assetUrl: string;
+  aspectRatio: BannerAspectRatio;
+  landing: {
+    type: Winner['type'];
+    id: string;                  // Product ID, vendor/brand name, or URL
+  };
+  bid: number;                   // Max bid (USD) in the campaign's billing model
+  categories?: string[];         // Only eligible on these categories when set
+}
+
+// Banner slots sold on the storefront, keyed by AuctionSlot.slotId
+export const BANNER_SLOTS: Record<string, { aspectRatio: BannerAspectRatio }> = {
+  'catalog-leaderboard': { aspectRatio: '4:1' },
+  'product-detail-footer': { aspectRatio: '6:1' },
+};
+
+export const mockBanners: MockBanner[] = [
+  {
+    id: 'ban-fitgear-leaderboard',
+    campaignId: 'camp-fitgear-01',
+    assetUrl: 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=1600&h=400&fit=crop',
+    aspectRatio: '4:1',
+    landing: { type: 'product', id: 'prod-002' },
+    bid: 1.50,
+    categories: ['electronics', 'fitness'],
+  },
+  {
+    id: 'ban-audiotech-leaderboard',
+    campaignId: 'camp-audiotech-01',
+    assetUrl: 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=1600&h=400&fit=crop',
+    aspectRatio: '4:1',
+    landing: { type: 'product', id: 'prod-001' },
+    bid: 1.20,
+    categories: ['electronics'],
+  },
+  {
+    id: 'ban-greenthumb-leaderboard',
+    campaignId: 'camp-greenthumb-01',
+    assetUrl: 'https://images.unsplash.com/photo-1459411552884-841db9b3cc2a?w=1600&h=400&fit=crop',
+    aspectRatio: '4:1',
+    landing: { type: 'product', id: 'prod-010' },
+    bid: 0.60,
+    categories: ['home'],
+  },
+  {
+    id: 'ban-hydrolife-leaderboard',
+    campaignId: 'camp-hydrolife-01',
+    assetUrl: 'https://images.unsplash.com/photo-1602143407151-7111542de6e8?w=1600&h=400&fit=crop',
+    aspectRatio: '4:1',
+    landing: { type: 'url', id: 'https://example.com/hydrolife' },
+    bid: 0.70,
+    categories: ['lifestyle', 'fitness'],
+  },
+  {
+    id: 'ban-gamepro-footer',
+    campaignId: 'camp-gamepro-01',
+    assetUrl: 'https://images.unsplash.com/photo-1595225476474-87563907a212?w=1800&h=300&fit=crop',
+    aspectRatio: '6:1',
+    landing: { type: 'product', id: 'prod-006' },
+    bid: 20.00,                  // GamePro buys on CPM
+  },
+  {
+    id: 'ban-ergoworks-footer',
+    campaignId: 'camp-ergoworks-01',
+    assetUrl: 'https://images.unsplash.com/photo-1580480055273-228ff5388ef8?w=1800&h=300&fit=crop',
+    aspectRatio: '6:1',
+    landing: { type: 'product', id: 'prod-004' },
+    bid: 0.90,
+    categories: ['furniture', 'home'],
+  },
+  {
+    id: 'ban-beanmasters-footer',
+    campaignId: 'camp-beanmasters-01',
+    assetUrl: 'https://images.unsplash.com/photo-1559056199-641a0ac8b55e?w=1800&h=300&fit=crop',
+    aspectRatio: '6:1',
+    landing: { type: 'url', id: 'https://example.com/beanmasters' },
+    bid: 0.40,
+  },
+];
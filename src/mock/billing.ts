@@ -0,0 +1,113 @@
+/**
+ * Mock Billing
+ *
+ * Campaigns pay when their ad is delivered, not when it wins an auction.
+ * CPC campaigns are charged their clearing price on the first valid click
+ * of a bid; CPM campaigns are charged a thousandth of their clearing CPM
+ * on its first valid impression. Each bid is charged at most once, and
+ * not at all if its billing event doesn't arrive within a day.
+ */
+
+import type { BillingModel, Campaign } from '../types/topsort';
+import type { CampaignStore } from './campaigns';
+
+// CPM bids compete in auctions as the CPC they would equal at this CTR
+const CPM_BASELINE_CTR = 0.02;
+
+// How long after its auction a bid can still be billed
+const CHARGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface PendingCharge {
+  campaignId: string;
+  billingModel: BillingModel;
+  amount: number;                // Charged on the billing event (USD)
+  registeredAt: number;
+}
+
+export function getBillingModel(campaign: Campaign): BillingModel {
+  return campaign.billingModel ?? 'cpc';
+}
+
+/**
+ * Auctions rank every bid in CPC terms
+ */
+export function toAuctionBid(billingModel: BillingModel, bid: number): number {
+  return billingModel === 'cpm' ? (bid / 1000) / CPM_BASELINE_CTR : bid;
+}
+
+/**
+ * Convert an auction clearing price back to the campaign's billing unit
+ */
+export function fromAuctionPrice(billingModel: BillingModel, price: number): number {
+  const converted = billingModel === 'cpm' ? price * CPM_BASELINE_CTR * 1000 : price;
+  return Math.round(converted * 100) / 100;
+}
+
+/**
+ * Highest bid, in the campaign's billing unit, that one charge of the
+ * remaining budget can cover
+ */
+export function getMaxAffordableBid(billingModel: BillingModel, remainingBudget: number): number {
+  return billingModel === 'cpm' ? remainingBudget * 1000 : remainingBudget;
+}
+
+/**
+ * Amount charged for one billing event at a winner's price
+ */
+export function getChargeAmount(billingModel: BillingModel, winnerPrice: number): number {
+  return billingModel === 'cpm' ? winnerPrice / 1000 : winnerPrice;
+}
+
+export class BillingLedger {
+  // resolvedBidId -> charge, oldest first; removed once billed, so no
+  // bid pays twice, or once expired
+  private pendingCharges = new Map<string, PendingCharge>();
+  private campaigns: CampaignStore;
+
+  constructor(campaigns: CampaignStore) {
+    this.campaigns = campaigns;
+  }
+
+  registerBillableBid(
+    resolvedBidId: string,
+    campaignId: string,
+    billingModel: BillingModel,
+    winnerPrice: number,
+    now: number = Date.now()
+  ): void {
+    this.pruneExpired(now);
+    this.pendingCharges.delete(resolvedBidId);
+    this.pendingCharges.set(resolvedBidId, {
+      campaignId,
+      billingModel,
+      amount: getChargeAmount(billingModel, winnerPrice),
+      registeredAt: now,
+    });
+  }
+
+  /**
+   * Charge the bid's campaign if this event is the one its billing model
+   * pays for. Returns the amount charged (0 when nothing was billed).
+   */
+  chargeForEvent(kind: 'impression' | 'click', resolvedBidId: string, now: number = Date.now()): number {
+    this.pruneExpired(now);
+    const charge = this.pendingCharges.get(resolvedBidId);
+    if (!charge) return 0;
+    if ((kind === 'click') !== (charge.billingModel === 'cpc')) return 0;
+
+    this.pendingCharges.delete(resolvedBidId);
+    this.campaigns.recordCampaignSpend(charge.campaignId, charge.amount);
+    return charge.amount;
+  }
+
+  clear(): void {
+    this.pendingCharges.clear();
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [resolvedBidId, charge] of this.pendingCharges) {
+      if (now - charge.registeredAt <= CHARGE_TTL_MS) break;
+      this.pendingCharges.delete(resolvedBidId);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Mock Budget Pacing
+ *
+ * Spreads each campaign's daily budget evenly across the day. A campaign
+ * that has spent more than its share of the elapsed day is throttled, and
+ * one that has exhausted its daily or total budget stops bidding entirely.
+ */
+
+import type { Campaign, CampaignSpend } from '../types/topsort';
+import { toDateKey } from './campaigns';
+
+// Minimum pacing multiplier while a campaign still has budget left
+const MIN_PACING = 0.1;
+
+export function isCampaignInFlight(campaign: Campaign, now: Date = new Date()): boolean {
+  if (campaign.status !== 'active') return false;
+  const today = toDateKey(now);
+  if (today < campaign.startDate) return false;
+  if (campaign.endDate && today > campaign.endDate) return false;
+  return true;
+}
+
+export function getRemainingBudget(campaign: Campaign, spend: CampaignSpend): number {
+  return Math.max(0, Math.min(
+    campaign.dailyBudget - spend.spentToday,
+    campaign.totalBudget - spend.spentTotal
+  ));
+}
+
+/**
+ * Whether a campaign may serve to a shopper in the given location.
+ * Untargeted campaigns serve everywhere; targeted campaigns require a
+ * known location that is one of their targets.
+ */
+export function matchesGeoTargeting(campaign: Campaign, location?: string): boolean {
+  if (!campaign.geoTargets || campaign.geoTargets.length === 0) return true;
+  return !!location && campaign.geoTargets.includes(location);
+}
+
+/**
+ * Pacing multiplier in [0, 1].
+ * - 0: campaign is paused, out of flight, or out of budget
+ * - 1: spend is on or behind the even-pacing schedule
+ * - in between: spend is ahead of schedule, proportionally throttled
+ */
+export function getPacingMultiplier(
+  campaign: Campaign,
+  spend: CampaignSpend,
+  now: Date = new Date()
+): number {
+  if (!isCampaignInFlight(campaign, now)) return 0;
+  if (campaign.dailyBudget <= 0 || getRemainingBudget(campaign, spend) <= 0) return 0;
+
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const elapsedFraction = (now.getTime() - startOfDay.getTime()) / (24 * 60 * 60 * 1000);
+  const spentFraction = spend.spentToday / campaign.dailyBudget;
+
+  if (spentFraction <= elapsedFraction) return 1;
+
+  const overspend = (spentFraction - elapsedFraction) / Math.max(1 - elapsedFraction, 0.01);
+  return Math.max(MIN_PACING, 1 - overspend);
+}
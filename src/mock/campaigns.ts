@@ -0,0 +1,131 @@
+/**
+ * Mock Advertiser Campaigns
+ * In-memory campaign store with per-campaign spend tracking. Each mock
+ * server has its own store, seeded with the same campaigns.
+ */
+
+import type { BillingModel, Campaign, CampaignSpend } from '../types/topsort';
+
+const alwaysOnCampaigns: Campaign[] = [
+  { vendor: 'AudioTech', productId: 'prod-001', bid: 0.85, dailyBudget: 40 },
+  { vendor: 'FitGear', productId: 'prod-002', bid: 1.10, dailyBudget: 60 },
+  { vendor: 'BeanMasters', productId: 'prod-003', bid: 0.35, dailyBudget: 15 },
+  { vendor: 'ErgoWorks', productId: 'prod-004', bid: 0.95, dailyBudget: 50 },
+  { vendor: 'SoundWave', productId: 'prod-005', bid: 0.45, dailyBudget: 20 },
+  { vendor: 'GamePro', productId: 'prod-006', bid: 18.00, dailyBudget: 45, billingModel: 'cpm' as const },
+  { vendor: 'HydroLife', productId: 'prod-007', bid: 0.30, dailyBudget: 15 },
+  { vendor: 'ZenFit', productId: 'prod-008', bid: 0.40, dailyBudget: 20 },
+  { vendor: 'TechConnect', productId: 'prod-009', bid: 0.50, dailyBudget: 25 },
+  { vendor: 'GreenThumb', productId: 'prod-010', bid: 0.25, dailyBudget: 10 },
+  { vendor: 'CraftedGoods', productId: 'prod-011', bid: 0.80, dailyBudget: 40 },
+  { vendor: 'BrightHome', productId: 'prod-012', bid: 0.35, dailyBudget: 15 },
+].map(({ vendor, productId, bid, dailyBudget, billingModel }: {
+  vendor: string;
+  productId: string;
+  bid: number;
+  dailyBudget: number;
+  billingModel?: BillingModel;
+}) => ({
+  id: `camp-${vendor.toLowerCase()}-01`,
+  name: `${vendor} Always-On`,
+  vendor,
+  status: 'active' as const,
+  bidStrategy: 'manual' as const,
+  billingModel,
+  bids: { [productId]: bid },
+  maxCpc: bid,
+  dailyBudget,
+  totalBudget: dailyBudget * 30,
+  startDate: '2026-01-01',
+}));
+
+// Regional advertisers that only bid for shoppers in specific locations
+const geoCampaigns: Campaign[] = [
+  { vendor: 'HydroLife', productId: 'prod-007', bid: 1.40, region: 'California', geoTargets: ['us-ca'] },
+  { vendor: 'ErgoWorks', productId: 'prod-004', bid: 1.30, region: 'New York', geoTargets: ['us-ny'] },
+  { vendor: 'GreenThumb', productId: 'prod-010', bid: 1.20, region: 'UK', geoTargets: ['uk-lon'] },
+  { vendor: 'BeanMasters', productId: 'prod-003', bid: 1.10, region: 'DACH', geoTargets: ['de-ber'] },
+].map(({ vendor, productId, bid, region, geoTargets }) => ({
+  id: `camp-${vendor.toLowerCase()}-geo`,
+  name: `${vendor} ${region}`,
+  vendor,
+  status: 'active' as const,
+  bidStrategy: 'manual' as const,
+  bids: { [productId]: bid },
+  maxCpc: bid,
+  dailyBudget: 20,
+  totalBudget: 600,
+  startDate: '2026-01-01',
+  geoTargets,
+}));
+
+const seedCampaigns: Campaign[] = [...alwaysOnCampaigns, ...geoCampaigns];
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function generateCampaignId(vendor: string): string {
+  return `camp-${vendor.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${Math.random().toString(36).substring(2, 7)}`;
+}
+
+function copyCampaign(campaign: Campaign): Campaign {
+  return { ...campaign, bids: { ...campaign.bids } };
+}
+
+export class CampaignStore {
+  private campaigns: Campaign[] = seedCampaigns.map(copyCampaign);
+  // campaignId -> spend, with the daily bucket keyed on the local date
+  private spendLedger = new Map<string, { day: string; spentToday: number; spentTotal: number }>();
+
+  getCampaigns(): Campaign[] {
+    return this.campaigns.map(copyCampaign);
+  }
+
+  getCampaignById(id: string): Campaign | undefined {
+    const campaign = this.campaigns.find(c => c.id === id);
+    return campaign ? copyCampaign(campaign) : undefined;
+  }
+
+  createCampaign(input: Omit<Campaign, 'id'>): Campaign {
+    const campaign: Campaign = { ...input, id: generateCampaignId(input.vendor) };
+    this.campaigns = [...this.campaigns, campaign];
+    return copyCampaign(campaign);
+  }
+
+  updateCampaign(id: string, changes: Partial<Omit<Campaign, 'id'>>): Campaign | undefined {
+    let updated: Campaign | undefined;
+    this.campaigns = this.campaigns.map(c => {
+      if (c.id !== id) return c;
+      updated = { ...c, ...changes, id };
+      return updated;
+    });
+    return updated ? copyCampaign(updated) : undefined;
+  }
+
+  getCampaignSpend(campaignId: string, now: Date = new Date()): CampaignSpend {
+    const entry = this.spendLedger.get(campaignId);
+    const today = toDateKey(now);
+    return {
+      campaignId,
+      spentToday: entry && entry.day === today ? entry.spentToday : 0,
+      spentTotal: entry?.spentTotal || 0,
+    };
+  }
+
+  recordCampaignSpend(campaignId: string, amount: number, now: Date = new Date()): void {
+    const current = this.getCampaignSpend(campaignId, now);
+    this.spendLedger.set(campaignId, {
+      day: toDateKey(now),
+      spentToday: current.spentToday + amount,
+      spentTotal: current.spentTotal + amount,
+    });
+  }
+
+  reset(): void {
+    this.campaigns = seedCampaigns.map(copyCampaign);
+    this.spendLedger.clear();
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Mock Shopper Locations
+ * Regions available for geo-targeted campaigns
+ */
+
+export interface ShopperLocation {
+  id: string;
+  label: string;
+}
+
+export const shopperLocations: ShopperLocation[] = [
+  { id: 'us-ca', label: 'California, US' },
+  { id: 'us-ny', label: 'New York, US' },
+  { id: 'us-tx', label: 'Texas, US' },
+  { id: 'uk-lon', label: 'London, UK' },
+  { id: 'de-ber', label: 'Berlin, DE' },
+];
+
+export function getLocationLabel(id: string): string {
+  return shopperLocations.find(l => l.id === id)?.label || id;
+}
@@ -1,37 +1,83 @@
 /**
  * Mock Topsort API Server
  *
- * Intercepts API calls and returns realistic responses for demo purposes.
- * Includes personalization based on purchase history.
+ * Answers Topsort API calls with realistic responses for demo purposes.
+ * Each MockServer is a separate backend: campaigns and their spend,
+ * processed event IDs, attribution, viewability, rate limits, purchase
+ * history and error simulation all live on the instance, so clients
+ * given different servers never see each other's traffic.
+ * createMockTransport() connects a TopsortClient to a server in memory;
+ * enableMockServer() instead patches the global fetch.
+ * Errors are answered with realistic HTTP statuses (400, 401, 404, 422,
+ * 429, 5xx), and error simulation can produce any of them, a timeout or
+ * a network failure. Requests are rate-limited per API key by
+ * ./rate-limit.
+ * Auctions are cleared by the second-price engine in ./auction-engine,
+ * with quality scores personalized by purchase history. Campaigns are
+ * charged by ./billing when an impression or click is reported, and
+ * purchases are attributed to ads server-side by ./attribution.
  */
 
 import type {
+  AttributionModel,
+  AttributionReportRequest,
   AuctionRequest,
   AuctionResponse,
+  AuctionResult,
+  AuctionSlot,
+  Campaign,
+  IdentityMergeRequest,
+  IdentityMergeResponse,
   Winner,
   EventResponse,
+  Product,
+  PurchaseItem,
+  ViewabilityReport,
 } from '../types/topsort';
+import type { Transport, TransportRequest, TransportResponse } from '../api/transport';
+import { auctionRequestSchema, validate } from '../api/validation';
+import { matchesSearchQuery } from '../lib/product-search';
+import { RateLimiter, type RateLimitPolicy } from './rate-limit';
 import { mockProducts } from './products';
+import { CampaignStore } from './campaigns';
+import { getPacingMultiplier, getRemainingBudget, matchesGeoTargeting } from './budget-pacing';
+import { getKeywordRelevance } from './search-relevance';
+import { mockBanners, BANNER_SLOTS } from './banners';
+import {
+  BANNER_RESERVE_PRICE,
+  computeQualityScore,
+  runSecondPriceAuction,
+  type AuctionCandidate,
+  type AuctionOutcome,
+} from './auction-engine';
+import { ATTRIBUTION_MODELS, AttributionEngine, MAX_LOOKBACK_DAYS } from './attribution';
+import {
+  BillingLedger,
+  fromAuctionPrice,
+  getBillingModel,
+  getMaxAffordableBid,
+  toAuctionBid,
+} from './billing';
+import { ViewabilityTracker, validateViewabilityEvent } from './viewability';
 
 // Simulated latency range (ms)
 const MIN_LATENCY = 50;
 const MAX_LATENCY = 200;
 
-// Store original fetch
-const originalFetch = window.fetch;
-
-// Default sponsored products (before any purchases)
-const DEFAULT_SPONSORED_IDS = ['prod-002', 'prod-006', 'prod-011'];
-
-// Products available for sponsorship by category
-const SPONSORED_BY_CATEGORY: Record<string, string[]> = {
-  electronics: ['prod-001', 'prod-002', 'prod-005', 'prod-006', 'prod-009'],
-  home: ['prod-010', 'prod-012'],
-  lifestyle: ['prod-007'],
-  fitness: ['prod-008'],
-  food: ['prod-003'],
-  furniture: ['prod-004'],
-  accessories: ['prod-011'],
+// Captured by enableMockServer, so importing this module has no global side effects
+let originalFetch: typeof fetch | null = null;
+// Answers the patched fetch while enableMockServer is in effect
+let globalServer: MockServer | null = null;
+
+// Related categories used for cross-sell relevance
+const RELATED_CATEGORIES: Record<string, string[]> = {
+  electronics: ['accessories', 'home'],
+  accessories: ['electronics', 'lifestyle'],
+  fitness: ['lifestyle', 'food'],
+  home: ['electronics', 'furniture'],
+  lifestyle: ['fitness', 'accessories'],
+  food: ['lifestyle', 'home'],
+  furniture: ['home', 'electronics'],
 };
 
 // Purchase history tracking
@@ -40,27 +86,61 @@ interface PurchaseHistory {
   productIds: Set<string>;
 }
 
-const purchaseHistory: PurchaseHistory = {
-  categories: new Map(),
-  productIds: new Set(),
-};
-
-// Error simulation
-let simulateErrors = false;
-let errorRate = 0;
-
-export function setErrorSimulation(enabled: boolean, rate: number = 0.3): void {
-  simulateErrors = enabled;
-  errorRate = rate;
-}
-
-export function getPurchaseHistory(): PurchaseHistory {
-  return purchaseHistory;
+// Error simulation: what a simulated failure looks like. 'server' is a
+// random 5xx; 'timeout' never answers, 'network' fails before a response.
+export type SimulatedFailure =
+  | 'server'
+  | 'bad-request'
+  | 'unauthorized'
+  | 'unprocessable'
+  | 'rate-limit'
+  | 'timeout'
+  | 'network';
+
+// Thrown by handlers to answer with a specific status
+class MockHttpError extends Error {
+  readonly status: number;
+  readonly details: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    message: string,
+    details: Record<string, unknown> = {},
+    headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.status = status;
+    this.details = details;
+    this.headers = headers;
+  }
 }
 
-export function clearPurchaseHistory(): void {
-  purchaseHistory.categories.clear();
-  purchaseHistory.productIds.clear();
+// Retry-After sent with simulated 429s and 503s (seconds)
+const SIMULATED_RETRY_AFTER = '2';
+
+const SERVER_ERRORS: Array<[number, string]> = [
+  [500, 'Internal server error'],
+  [502, 'Bad gateway'],
+  [503, 'Service temporarily unavailable'],
+];
+
+function getSimulatedHttpError(failure: Exclude<SimulatedFailure, 'timeout' | 'network'>): MockHttpError {
+  switch (failure) {
+    case 'bad-request':
+      return new MockHttpError(400, 'Malformed request (simulated)');
+    case 'unauthorized':
+      return new MockHttpError(401, 'Invalid API key (simulated)');
+    case 'unprocessable':
+      return new MockHttpError(422, 'Request failed validation (simulated)');
+    case 'rate-limit':
+      return new MockHttpError(429, 'Too many requests (simulated)', {}, { 'retry-after': SIMULATED_RETRY_AFTER });
+    case 'server': {
+      const [status, message] = SERVER_ERRORS[Math.floor(Math.random() * SERVER_ERRORS.length)];
+      const headers: Record<string, string> = status === 503 ? { 'retry-after': SIMULATED_RETRY_AFTER } : {};
+      return new MockHttpError(status, `${message} (simulated)`, {}, headers);
+    }
+  }
 }
 
 function delay(ms: number): Promise<void> {
@@ -71,160 +151,533 @@ function randomLatency(): number {
   return MIN_LATENCY + Math.random() * (MAX_LATENCY - MIN_LATENCY);
 }
 
-function shouldSimulateError(): boolean {
-  return simulateErrors && Math.random() < errorRate;
-}
-
 function generateBidId(): string {
   return `bid_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
 
-function getPersonalizedSponsoredProducts(slots: number): typeof mockProducts {
-  // If no purchase history, return default sponsored products
-  if (purchaseHistory.categories.size === 0) {
-    return mockProducts.filter(p => DEFAULT_SPONSORED_IDS.includes(p.id)).slice(0, slots);
+/**
+ * Whether a product is eligible for the given auction slot.
+ * CategoryFilter always narrows the pool. ProductFilter and searchQuery
+ * each narrow it on their own; when both are set the pool is expanded to
+ * the listed products plus any keyword matches.
+ */
+function matchesAuctionFilters(product: Product, auction: AuctionSlot): boolean {
+  if (auction.category && product.category !== auction.category.id) return false;
+
+  const inProductList = auction.products?.ids.includes(product.id) ?? false;
+  const matchesQuery = auction.searchQuery
+    ? matchesSearchQuery(product, auction.searchQuery)
+    : false;
+
+  if (auction.products && auction.searchQuery) return inProductList || matchesQuery;
+  if (auction.products) return inProductList;
+  if (auction.searchQuery) return matchesQuery;
+  return true;
+}
+
+/**
+ * Relevance multiplier for keyword auctions: strong matches are boosted,
+ * weak ones (or listed products with no keyword match) are discounted.
+ */
+function getSearchRelevance(product: Product, auction: AuctionSlot): number {
+  if (!auction.searchQuery) return 1;
+  return 0.5 + getKeywordRelevance(product, auction.searchQuery);
+}
+
+// Products a winning bid can claim purchases of during attribution
+function getPromotedProductIds(type: Winner['type'], id: string): string[] {
+  switch (type) {
+    case 'product':
+      return [id];
+    case 'vendor':
+    case 'brand':
+      return mockProducts.filter(p => p.vendor === id).map(p => p.id);
+    case 'url':
+      return [];
   }
+}
 
-  // Sort categories by purchase frequency
-  const sortedCategories = Array.from(purchaseHistory.categories.entries())
-    .sort((a, b) => b[1] - a[1])
-    .map(([category]) => category);
-
-  // Get related categories (for cross-sell)
-  const relatedCategories: Record<string, string[]> = {
-    electronics: ['accessories', 'home'],
-    accessories: ['electronics', 'lifestyle'],
-    fitness: ['lifestyle', 'food'],
-    home: ['electronics', 'furniture'],
-    lifestyle: ['fitness', 'accessories'],
-    food: ['lifestyle', 'home'],
-    furniture: ['home', 'electronics'],
-  };
+interface EventsRequestBody {
+  impressions?: Array<{ resolvedBidId: string; id: string; occurredAt: string; opaqueUserId?: string; billable?: boolean }>;
+  clicks?: Array<{ resolvedBidId: string; id: string; occurredAt: string; opaqueUserId?: string; billable?: boolean }>;
+  purchases?: Array<{
+    id: string;
+    occurredAt?: string;
+    opaqueUserId?: string;
+    items?: PurchaseItem[];
+    resolvedBidId?: string;
+  }>;
+  viewabilities?: Array<{
+    id: string;
+    resolvedBidId: string;
+    viewable: boolean;
+    percentVisible: number;
+    timeInViewMs: number;
+  }>;
+}
+
+// Like fetch, give up once the client's timeout aborts the request
+function withAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal.aborted) return abort();
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * One simulated Topsort backend
+ */
+export class MockServer {
+  readonly campaigns = new CampaignStore();
+  private billing = new BillingLedger(this.campaigns);
+  private attribution = new AttributionEngine();
+  private viewability = new ViewabilityTracker();
+  private rateLimiter = new RateLimiter();
+  private purchaseHistory: PurchaseHistory = { categories: new Map(), productIds: new Set() };
+  // Event IDs already processed, so retried batches are idempotent
+  private processedEventIds = new Set<string>();
+  private simulateErrors = false;
+  private errorRate = 0;
+  private simulatedFailure: SimulatedFailure = 'server';
+
+  setErrorSimulation(
+    enabled: boolean,
+    rate: number = 0.3,
+    failure: SimulatedFailure = 'server'
+  ): void {
+    this.simulateErrors = enabled;
+    this.errorRate = rate;
+    this.simulatedFailure = failure;
+  }
+
+  setRateLimitPolicy(policy: RateLimitPolicy): void {
+    this.rateLimiter.setPolicy(policy);
+  }
+
+  /**
+   * Answer one API call as the real API would over HTTP
+   */
+  async route(
+    url: string,
+    authorization: string | null,
+    body: string | undefined
+  ): Promise<TransportResponse> {
+    const failure = this.shouldSimulateError() ? this.simulatedFailure : null;
+    if (failure === 'network') {
+      await delay(randomLatency());
+      throw new TypeError('Failed to fetch (simulated)');
+    }
+    if (failure === 'timeout') {
+      // Never answers; the client gives up when its timeout aborts the request
+      return new Promise(() => {});
+    }
+
+    let rateLimitHeaders: Record<string, string> = {};
+    try {
+      if (failure) {
+        await delay(randomLatency());
+        throw getSimulatedHttpError(failure);
+      }
+      const apiKey = authorization?.match(/^Bearer (\S+)$/)?.[1];
+      if (!apiKey) {
+        throw new MockHttpError(401, 'Missing or invalid API key');
+      }
+
+      const rateLimit = this.rateLimiter.consume(apiKey);
+      rateLimitHeaders = rateLimit.headers;
+      if (!rateLimit.allowed) {
+        await delay(MIN_LATENCY);
+        throw new MockHttpError(429, 'Rate limit exceeded for this API key');
+      }
+
+      let parsedBody;
+      try {
+        parsedBody = body ? JSON.parse(body) : {};
+      } catch {
+        throw new MockHttpError(400, 'Request body is not valid JSON');
+      }
+
+      let responseData: unknown;
 
-  // Build candidate pool: prioritize purchased categories + related categories
-  const candidateIds: string[] = [];
+      if (url.includes('/auctions')) {
+        responseData = await this.handleAuctionRequest(parsedBody);
+      } else if (url.includes('/identities/merge')) {
+        responseData = await this.handleIdentityMergeRequest(parsedBody);
+      } else if (url.includes('/reports/viewability')) {
+        responseData = await this.handleViewabilityReportRequest();
+      } else if (url.includes('/reports/attribution')) {
+        responseData = await this.handleAttributionReportRequest(url);
+      } else if (url.includes('/events')) {
+        responseData = await this.handleEventsRequest(parsedBody);
+      } else {
+        throw new MockHttpError(404, `Unknown endpoint: ${url}`);
+      }
 
-  // First, add products from purchased categories
-  for (const category of sortedCategories) {
-    const categoryProducts = SPONSORED_BY_CATEGORY[category] || [];
-    // Don't re-advertise products they already bought
-    const filtered = categoryProducts.filter(id => !purchaseHistory.productIds.has(id));
-    candidateIds.push(...filtered);
+      return { status: 200, headers: rateLimitHeaders, body: JSON.stringify(responseData) };
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return {
+          status: error.status,
+          headers: { ...rateLimitHeaders, ...error.headers },
+          body: JSON.stringify({ message: error.message, ...error.details }),
+        };
+      }
+      const message = error instanceof Error ? error.message : 'Internal error';
+      return { status: 500, headers: rateLimitHeaders, body: JSON.stringify({ message }) };
+    }
   }
 
-  // Then add related category products
-  for (const category of sortedCategories) {
-    const related = relatedCategories[category] || [];
-    for (const relatedCat of related) {
-      const categoryProducts = SPONSORED_BY_CATEGORY[relatedCat] || [];
-      const filtered = categoryProducts.filter(
-        id => !purchaseHistory.productIds.has(id) && !candidateIds.includes(id)
-      );
-      candidateIds.push(...filtered);
+  private shouldSimulateError(): boolean {
+    return this.simulateErrors && Math.random() < this.errorRate;
+  }
+
+  /**
+   * Relevance multiplier applied to a product's quality score based on
+   * purchase history. Returns 0 for products the user already bought so
+   * they are never re-advertised.
+   */
+  private getPersonalizationRelevance(product: Product): number {
+    if (this.purchaseHistory.productIds.has(product.id)) return 0;
+    if (this.purchaseHistory.categories.size === 0) return 1;
+
+    const purchaseCount = this.purchaseHistory.categories.get(product.category) || 0;
+    if (purchaseCount > 0) {
+      // Boost purchased categories, more for frequently purchased ones
+      return Math.min(1.3 + purchaseCount * 0.1, 1.8);
     }
+
+    const isRelated = Array.from(this.purchaseHistory.categories.keys()).some(
+      category => RELATED_CATEGORIES[category]?.includes(product.category)
+    );
+    return isRelated ? 1.15 : 1;
   }
 
-  // If we still need more, add remaining products
-  if (candidateIds.length < slots) {
-    const remaining = mockProducts
-      .filter(p => !purchaseHistory.productIds.has(p.id) && !candidateIds.includes(p.id))
-      .map(p => p.id);
-    candidateIds.push(...remaining);
+  /**
+   * Pacing state for a campaign, or null when it cannot bid in this auction
+   * (outside its geo targets, paused, or out of budget). Manual campaigns are
+   * throttled probabilistically when ahead of their pacing schedule;
+   * automatic campaigns shade their bid instead.
+   */
+  private getBiddingState(
+    campaign: Campaign,
+    auction: AuctionSlot,
+    now: Date
+  ): { pacing: number; remainingBudget: number } | null {
+    if (!matchesGeoTargeting(campaign, auction.geoTargeting?.location)) return null;
+
+    const spend = this.campaigns.getCampaignSpend(campaign.id, now);
+    const pacing = getPacingMultiplier(campaign, spend, now);
+    if (pacing <= 0) return null;
+    if (campaign.bidStrategy === 'manual' && Math.random() > pacing) return null;
+    return { pacing, remainingBudget: getRemainingBudget(campaign, spend) };
   }
 
-  // Get unique product objects
-  const uniqueIds = [...new Set(candidateIds)].slice(0, slots);
-  return uniqueIds
-    .map(id => mockProducts.find(p => p.id === id))
-    .filter((p): p is typeof mockProducts[0] => p !== undefined);
-}
+  // Build listing candidates from every campaign currently able to bid
+  private collectListingCandidates(auction: AuctionSlot): AuctionCandidate[] {
+    const candidates: AuctionCandidate[] = [];
+    const now = new Date();
+
+    for (const campaign of this.campaigns.getCampaigns()) {
+      const state = this.getBiddingState(campaign, auction, now);
+      if (!state) continue;
+
+      const bids: Record<string, number> = campaign.bidStrategy === 'manual'
+        ? campaign.bids
+        : Object.fromEntries(
+            mockProducts
+              .filter(p => p.vendor === campaign.vendor)
+              .map(p => [p.id, campaign.maxCpc * state.pacing])
+          );
+
+      for (const [productId, bid] of Object.entries(bids)) {
+        const product = mockProducts.find(p => p.id === productId);
+        // Campaigns may only promote their own vendor's products
+        if (!product || product.vendor !== campaign.vendor) continue;
+        if (!matchesAuctionFilters(product, auction)) continue;
+
+        const relevance = this.getPersonalizationRelevance(product);
+        if (relevance <= 0) continue;
+
+        const billingModel = getBillingModel(campaign);
+        candidates.push({
+          campaignId: campaign.id,
+          itemId: productId,
+          // Never bid more than the budget left to spend
+          bid: toAuctionBid(billingModel, Math.min(bid, getMaxAffordableBid(billingModel, state.remainingBudget))),
+          qualityScore: computeQualityScore(product, relevance * getSearchRelevance(product, auction)),
+        });
+      }
+    }
 
-async function handleAuctionRequest(request: AuctionRequest): Promise<AuctionResponse> {
-  await delay(randomLatency());
+    return candidates;
+  }
+
+  // Build banner candidates for the requested slot from the banner inventory
+  private collectBannerCandidates(auction: AuctionSlot): AuctionCandidate[] {
+    const slot = auction.slotId ? BANNER_SLOTS[auction.slotId] : undefined;
+    if (!slot) return [];
 
-  if (shouldSimulateError()) {
-    throw new Error('Auction service temporarily unavailable');
+    const candidates: AuctionCandidate[] = [];
+    const now = new Date();
+
+    for (const banner of mockBanners) {
+      if (banner.aspectRatio !== slot.aspectRatio) continue;
+      if (auction.category && banner.categories && !banner.categories.includes(auction.category.id)) {
+        continue;
+      }
+
+      const campaign = this.campaigns.getCampaignById(banner.campaignId);
+      const state = campaign ? this.getBiddingState(campaign, auction, now) : null;
+      if (!campaign || !state) continue;
+
+      const billingModel = getBillingModel(campaign);
+      const bid = campaign.bidStrategy === 'manual' ? banner.bid : banner.bid * state.pacing;
+      candidates.push({
+        campaignId: campaign.id,
+        itemId: banner.id,
+        bid: toAuctionBid(billingModel, Math.min(bid, getMaxAffordableBid(billingModel, state.remainingBudget))),
+        qualityScore: 1,
+      });
+    }
+
+    return candidates;
   }
 
-  const results = request.auctions.map(auction => {
-    // Get personalized sponsored products
-    const sponsoredProducts = getPersonalizedSponsoredProducts(auction.slots);
+  // The campaign is charged later, when the bid's billing event is reported
+  private registerWinner(outcome: AuctionOutcome, winner: Winner): void {
+    this.attribution.registerResolvedBid(winner.resolvedBidId, {
+      campaignId: outcome.campaignId,
+      vendor: this.campaigns.getCampaignById(outcome.campaignId)?.vendor ?? '',
+      productIds: getPromotedProductIds(winner.type, winner.id),
+    });
+    this.billing.registerBillableBid(
+      winner.resolvedBidId,
+      outcome.campaignId,
+      winner.billingModel ?? 'cpc',
+      winner.winnerPrice
+    );
+  }
+
+  // Clearing price and billing model as the winning campaign is billed
+  private getWinnerPricing(outcome: AuctionOutcome): Pick<Winner, 'winnerPrice' | 'billingModel'> {
+    const campaign = this.campaigns.getCampaignById(outcome.campaignId);
+    const billingModel = campaign ? getBillingModel(campaign) : 'cpc';
+    return { winnerPrice: fromAuctionPrice(billingModel, outcome.price), billingModel };
+  }
 
-    const winners: Winner[] = sponsoredProducts.map((product, index) => ({
-      rank: index + 1,
-      type: 'product' as const,
-      id: product.id,
+  private toListingWinner(outcome: AuctionOutcome): Winner {
+    const winner: Winner = {
+      rank: outcome.rank,
+      type: 'product',
+      id: outcome.itemId,
       resolvedBidId: generateBidId(),
-      winnerPrice: Math.random() * 0.5 + 0.1, // $0.10 - $0.60 CPC
-    }));
+      ...this.getWinnerPricing(outcome),
+    };
+    this.registerWinner(outcome, winner);
+    return winner;
+  }
 
-    return {
-      resultType: auction.type,
-      winners,
+  private toBannerWinner(outcome: AuctionOutcome): Winner | null {
+    const banner = mockBanners.find(b => b.id === outcome.itemId);
+    if (!banner) return null;
+    const winner: Winner = {
+      rank: outcome.rank,
+      type: banner.landing.type,
+      id: banner.landing.id,
+      resolvedBidId: generateBidId(),
+      ...this.getWinnerPricing(outcome),
+      asset: [{ url: banner.assetUrl }],
     };
-  });
+    this.registerWinner(outcome, winner);
+    return winner;
+  }
 
-  return { results };
-}
+  private async handleAuctionRequest(request: AuctionRequest): Promise<AuctionResponse> {
+    await delay(randomLatency());
 
-interface EventsRequestBody {
-  impressions?: Array<{ resolvedBidId: string; id: string; occurredAt: string }>;
-  clicks?: Array<{ resolvedBidId: string; id: string; occurredAt: string }>;
-  purchases?: Array<{ id: string; items?: Array<{ productId: string }> }>;
-}
+    const issues = validate(auctionRequestSchema, request);
+    if (issues.length > 0) {
+      throw new MockHttpError(422, 'Auction request failed validation', { issues });
+    }
 
-async function handleEventsRequest(body: EventsRequestBody): Promise<EventResponse[]> {
-  await delay(randomLatency());
+    const results = request.auctions.map((auction): AuctionResult => {
+      const isBanner = auction.type === 'banners';
+
+      if (isBanner && (!auction.slotId || !BANNER_SLOTS[auction.slotId])) {
+        return {
+          resultType: auction.type,
+          winners: [],
+          error: {
+            code: 'invalid_slot',
+            message: `Unknown banner slot: ${auction.slotId ?? '(none)'}`,
+          },
+        };
+      }
 
-  if (shouldSimulateError()) {
-    throw new Error('Events service temporarily unavailable');
+      const outcomes = isBanner
+        ? runSecondPriceAuction(this.collectBannerCandidates(auction), {
+            slots: auction.slots,
+            reservePrice: BANNER_RESERVE_PRICE,
+          })
+        : runSecondPriceAuction(this.collectListingCandidates(auction), {
+            slots: auction.slots,
+          });
+
+      const winners: Winner[] = isBanner
+        ? outcomes.map(outcome => this.toBannerWinner(outcome)).filter((w): w is Winner => w !== null)
+        : outcomes.map(outcome => this.toListingWinner(outcome));
+
+      return {
+        resultType: auction.type,
+        winners,
+      };
+    });
+
+    return { results };
   }
 
-  const responses: EventResponse[] = [];
+  private async handleEventsRequest(body: EventsRequestBody): Promise<EventResponse[]> {
+    await delay(randomLatency());
 
-  // Process impressions
-  if (body.impressions) {
-    for (const impression of body.impressions) {
-      responses.push({
-        id: impression.id || `evt_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-        status: 'received' as const,
-      });
+    const responses: EventResponse[] = [];
+
+    // Record an event ID, reporting whether it was seen before
+    const acknowledge = (id: string | undefined): EventResponse => {
+      const eventId = id || `evt_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+      if (this.processedEventIds.has(eventId)) {
+        return { id: eventId, status: 'duplicate' };
+      }
+      this.processedEventIds.add(eventId);
+      return { id: eventId, status: 'received' };
+    };
+
+    // Process impressions
+    if (body.impressions) {
+      for (const impression of body.impressions) {
+        const response = acknowledge(impression.id);
+        responses.push(response);
+        if (response.status === 'duplicate') continue;
+        this.attribution.recordTouchpoint('impression', impression);
+        this.viewability.recordImpression(impression.resolvedBidId);
+        // Cached winners were shown without a fresh auction
+        if (impression.billable !== false) this.billing.chargeForEvent('impression', impression.resolvedBidId);
+      }
     }
-  }
 
-  // Process clicks
-  if (body.clicks) {
-    for (const click of body.clicks) {
-      responses.push({
-        id: click.id || `evt_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-        status: 'received' as const,
-      });
+    // Process clicks
+    if (body.clicks) {
+      for (const click of body.clicks) {
+        const response = acknowledge(click.id);
+        responses.push(response);
+        if (response.status === 'duplicate') continue;
+        this.attribution.recordTouchpoint('click', click);
+        if (click.billable !== false) this.billing.chargeForEvent('click', click.resolvedBidId);
+      }
     }
-  }
 
-  // Process purchases - track for personalization
-  if (body.purchases) {
-    for (const purchase of body.purchases) {
-      if (purchase.items) {
+    // Process purchases - attribute them and track for personalization
+    if (body.purchases) {
+      for (const purchase of body.purchases) {
+        const response = acknowledge(purchase.id);
+        responses.push(response);
+        // A replayed purchase must not count twice
+        if (response.status === 'duplicate' || !purchase.items) continue;
+
+        this.attribution.recordPurchase(purchase);
+
         for (const item of purchase.items) {
           const product = mockProducts.find(p => p.id === item.productId);
           if (product) {
             // Track the category
-            const currentCount = purchaseHistory.categories.get(product.category) || 0;
-            purchaseHistory.categories.set(product.category, currentCount + 1);
+            const currentCount = this.purchaseHistory.categories.get(product.category) || 0;
+            this.purchaseHistory.categories.set(product.category, currentCount + 1);
             // Track the product ID
-            purchaseHistory.productIds.add(item.productId);
+            this.purchaseHistory.productIds.add(item.productId);
           }
         }
       }
-      responses.push({
-        id: purchase.id || `evt_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-        status: 'received' as const,
-      });
     }
+
+    // Process viewability - malformed measurements are rejected, not counted
+    if (body.viewabilities) {
+      for (const viewability of body.viewabilities) {
+        const problem = validateViewabilityEvent(viewability);
+        if (problem) {
+          responses.push({ id: viewability.id, status: 'failed', error: problem });
+          continue;
+        }
+        const response = acknowledge(viewability.id);
+        responses.push(response);
+        if (response.status !== 'duplicate') this.viewability.recordViewability(viewability);
+      }
+    }
+
+    return responses;
+  }
+
+  private async handleViewabilityReportRequest(): Promise<ViewabilityReport> {
+    await delay(randomLatency());
+    return this.viewability.buildReport();
+  }
+
+  // Query parameters are optional; the engine's defaults fill in the rest
+  private async handleAttributionReportRequest(url: string) {
+    await delay(randomLatency());
+
+    // The base only resolves relative baseUrls; the query string is all we read
+    const params = new URL(url, 'http://localhost').searchParams;
+    const request: AttributionReportRequest = {};
+
+    const model = params.get('model');
+    if (model) {
+      if (!ATTRIBUTION_MODELS.includes(model as AttributionModel)) {
+        throw new MockHttpError(400, `Unknown attribution model: ${model}`);
+      }
+      request.model = model as AttributionModel;
+    }
+    for (const key of ['clickLookbackDays', 'viewLookbackDays'] as const) {
+      const value = params.get(key);
+      if (value === null) continue;
+      const days = Number(value);
+      if (!Number.isFinite(days) || days < 0 || days > MAX_LOOKBACK_DAYS) {
+        throw new MockHttpError(400, `Invalid ${key}: ${value} (must be 0-${MAX_LOOKBACK_DAYS})`);
+      }
+      request[key] = days;
+    }
+
+    return this.attribution.buildReport(request);
+  }
+
+  private async handleIdentityMergeRequest(body: IdentityMergeRequest): Promise<IdentityMergeResponse> {
+    await delay(randomLatency());
+
+    if (!body.anonymousId || !body.opaqueUserId) {
+      throw new MockHttpError(422, 'anonymousId and opaqueUserId are required');
+    }
+
+    return {
+      opaqueUserId: body.opaqueUserId,
+      mergedEvents: this.attribution.mergeUserIds(body.anonymousId, body.opaqueUserId),
+    };
   }
 
-  return responses;
+}
+
+/**
+ * In-memory transport for a TopsortClient. Requests go straight to the
+ * server's handlers, whatever the client's baseUrl. Each call creates a
+ * fresh backend unless a server is passed in to share.
+ */
+export function createMockTransport(server: MockServer = new MockServer()): Transport {
+  return {
+    send: ({ url, headers, body, signal }: TransportRequest) => {
+      const authorization = Object.entries(headers).find(([name]) => name.toLowerCase() === 'authorization');
+      return withAbort(server.route(url, authorization?.[1] ?? null, body), signal);
+    },
+  };
 }
 
 function mockFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
@@ -232,43 +685,34 @@ function mockFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Respon
 
   // Only intercept Topsort API calls
   if (!url.includes('api.topsort.com')) {
-    return originalFetch(input, init);
+    return (originalFetch ?? fetch)(input, init);
   }
 
-  return (async () => {
-    try {
-      const body = init?.body ? JSON.parse(init.body as string) : {};
-
-      let responseData: unknown;
-
-      if (url.includes('/auctions')) {
-        responseData = await handleAuctionRequest(body);
-      } else if (url.includes('/events')) {
-        responseData = await handleEventsRequest(body);
-      } else {
-        throw new Error(`Unknown endpoint: ${url}`);
-      }
-
-      return new Response(JSON.stringify(responseData), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Internal error';
-      return new Response(JSON.stringify({ message }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-  })();
+  const authorization = new Headers(init?.headers).get('Authorization');
+  return withAbort((globalServer ?? new MockServer()).route(url, authorization, init?.body as string | undefined), init?.signal ?? undefined)
+    .then(({ status, headers, body }) => new Response(body, {
+      status,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    }));
 }
 
-export function enableMockServer(): void {
+/**
+ * Route every Topsort API call on the page to the mock, including ones
+ * that don't go through a TopsortClient. Prefer createMockTransport().
+ */
+export function enableMockServer(server: MockServer = new MockServer()): void {
+  if (!originalFetch) {
+    originalFetch = window.fetch;
+  }
+  globalServer = server;
   window.fetch = mockFetch;
   console.log('[Topsort Demo] Mock server enabled - API calls will be simulated');
 }
 
 export function disableMockServer(): void {
+  if (!originalFetch) return;
   window.fetch = originalFetch;
+  originalFetch = null;
+  globalServer = null;
   console.log('[Topsort Demo] Mock server disabled - API calls will go to real endpoints');
 }
@@ -0,0 +1,79 @@
+/**
+ * Mock Rate Limiting
+ *
+ * Token bucket per API key: each request takes a token, tokens refill at
+ * a steady rate up to the bucket's capacity, and a request that finds the
+ * bucket empty is answered 429 with Retry-After. Every response carries
+ * RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset headers. The
+ * 'sale' policy is tight enough for normal browsing to be throttled.
+ */
+
+export interface RateLimitPolicy {
+  capacity: number;              // Burst size
+  refillPerSecond: number;
+}
+
+export type RateLimitPolicyName = 'normal' | 'sale';
+
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  normal: { capacity: 60, refillPerSecond: 10 },
+  sale: { capacity: 6, refillPerSecond: 0.5 },
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  headers: Record<string, string>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private policy: RateLimitPolicy = RATE_LIMIT_POLICIES.normal;
+  // API key -> bucket
+  private buckets = new Map<string, Bucket>();
+
+  setPolicy(next: RateLimitPolicy): void {
+    this.policy = next;
+    // Start every key with a full bucket under the new policy
+    this.buckets.clear();
+  }
+
+  /**
+   * Take a token for one request by this API key
+   */
+  consume(apiKey: string, now: number = Date.now()): RateLimitDecision {
+    const { capacity, refillPerSecond } = this.policy;
+    let bucket = this.buckets.get(apiKey);
+    if (!bucket) {
+      bucket = { tokens: capacity, updatedAt: now };
+      this.buckets.set(apiKey, bucket);
+    }
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) bucket.tokens -= 1;
+
+    // Seconds until the bucket is full again
+    const resetSeconds = Math.ceil((capacity - bucket.tokens) / refillPerSecond);
+    const headers: Record<string, string> = {
+      'ratelimit-limit': String(capacity),
+      'ratelimit-remaining': String(Math.floor(bucket.tokens)),
+      'ratelimit-reset': String(resetSeconds),
+    };
+    if (!allowed) {
+      // Seconds until the next token
+      headers['retry-after'] = String(Math.ceil((1 - bucket.tokens) / refillPerSecond));
+    }
+
+    return { allowed, headers };
+  }
+
+  clear(): void {
+    this.buckets.clear();
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Mock Keyword Relevance
+ * Scores how well a product matches a shopper's search query, to rank
+ * keyword-auction bids. Which products are eligible is decided by the
+ * catalog's own matching (lib/product-search).
+ */
+
+import type { Product } from '../types/topsort';
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'on', 'the', 'to', 'with']);
+
+// Weight of a match depending on where the term was found
+const NAME_WEIGHT = 1;
+const DESCRIPTION_WEIGHT = 0.6;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    // Naive singularization so "headphones" matches "headphone"
+    .map(token => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token));
+}
+
+function containsTerm(tokens: string[], term: string): boolean {
+  // Prefix matching keeps results stable while the shopper is still typing
+  return tokens.some(token => token.startsWith(term));
+}
+
+/**
+ * Relevance of a product to a search query in [0, 1]: the weighted share
+ * of query terms found in the product's name or description. Returns 0
+ * when no term matches.
+ */
+export function getKeywordRelevance(product: Pick<Product, 'name' | 'description'>, query: string): number {
+  const terms = tokenize(query);
+  if (terms.length === 0) return 0;
+
+  const nameTokens = tokenize(product.name);
+  const descriptionTokens = tokenize(product.description);
+
+  const score = terms.reduce((sum, term) => {
+    if (containsTerm(nameTokens, term)) return sum + NAME_WEIGHT;
+    if (containsTerm(descriptionTokens, term)) return sum + DESCRIPTION_WEIGHT;
+    return sum;
+  }, 0);
+
+  return score / terms.length;
+}
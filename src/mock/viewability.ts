@@ -0,0 +1,77 @@
+/**
+ * Mock Viewability Aggregation
+ *
+ * Validates viewability events and rolls them up per impression
+ * (resolvedBidId), so viewable-impression rates come from what the
+ * server received rather than from browser-side counters.
+ */
+
+import type { ViewabilityReport } from '../types/topsort';
+
+interface ViewabilityEventBody {
+  resolvedBidId?: unknown;
+  viewable?: unknown;
+  percentVisible?: unknown;
+  timeInViewMs?: unknown;
+}
+
+interface ImpressionViewability {
+  viewable: boolean;
+  timeInViewMs: number;          // Longest reported time in view
+}
+
+/**
+ * Returns a description of the first problem found, or null if valid
+ */
+export function validateViewabilityEvent(event: ViewabilityEventBody): string | null {
+  if (typeof event.resolvedBidId !== 'string' || event.resolvedBidId === '') {
+    return 'resolvedBidId is required';
+  }
+  if (typeof event.viewable !== 'boolean') {
+    return 'viewable must be a boolean';
+  }
+  if (typeof event.percentVisible !== 'number' || event.percentVisible < 0 || event.percentVisible > 100) {
+    return 'percentVisible must be between 0 and 100';
+  }
+  if (typeof event.timeInViewMs !== 'number' || event.timeInViewMs < 0) {
+    return 'timeInViewMs must be a non-negative number';
+  }
+  return null;
+}
+
+export class ViewabilityTracker {
+  private impressionBids = new Set<string>();
+  private measurements = new Map<string, ImpressionViewability>(); // resolvedBidId -> rollup
+
+  recordImpression(resolvedBidId: string): void {
+    this.impressionBids.add(resolvedBidId);
+  }
+
+  recordViewability(event: { resolvedBidId: string; viewable: boolean; timeInViewMs: number }): void {
+    const current = this.measurements.get(event.resolvedBidId);
+    this.measurements.set(event.resolvedBidId, {
+      // Once viewable, an impression stays viewable
+      viewable: (current?.viewable ?? false) || event.viewable,
+      timeInViewMs: Math.max(current?.timeInViewMs ?? 0, event.timeInViewMs),
+    });
+  }
+
+  clear(): void {
+    this.impressionBids.clear();
+    this.measurements.clear();
+  }
+
+  buildReport(): ViewabilityReport {
+    const rollups = Array.from(this.measurements.values());
+    const viewableImpressions = rollups.filter(r => r.viewable).length;
+    const totalTimeInView = rollups.reduce((sum, r) => sum + r.timeInViewMs, 0);
+
+    return {
+      impressions: this.impressionBids.size,
+      measuredImpressions: rollups.length,
+      viewableImpressions,
+      viewableRate: rollups.length > 0 ? Math.round((viewableImpressions / rollups.length) * 1000) / 10 : 0,
+      averageTimeInViewMs: rollups.length > 0 ? Math.round(totalTimeInView / rollups.length) : 0,
+    };
+  }
+}
@@ -0,0 +1,572 @@
+/**
+ * Campaigns Page
+ * Create and edit advertiser campaigns, with live budget pacing status
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Megaphone,
+  Plus,
+  Pencil,
+  Pause,
+  Play,
+  CalendarDays,
+  AlertCircle,
+  MapPin,
+} from 'lucide-react';
+import { mockProducts } from '@/mock/products';
+import { toDateKey } from '@/mock/campaigns';
+import { getPacingMultiplier } from '@/mock/budget-pacing';
+import { shopperLocations, getLocationLabel } from '@/mock/locations';
+import type { Campaign, CampaignSpend, BidStrategy, BillingModel } from '@/types/topsort';
+import { useTopsortContext } from '@/context/TopsortContext';
+import { cn } from '@/lib/utils';
+
+const vendors = [...new Set(mockProducts.map(p => p.vendor))].sort();
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+const BILLING_MODEL_LABELS: Record<BillingModel, string> = {
+  cpc: 'CPC',
+  cpm: 'CPM',
+};
+
+// Form values are kept as strings so inputs can be edited freely
+interface CampaignDraft {
+  name: string;
+  vendor: string;
+  bidStrategy: BidStrategy;
+  billingModel: BillingModel;
+  bids: Record<string, string>;
+  maxCpc: string;
+  dailyBudget: string;
+  totalBudget: string;
+  startDate: string;
+  endDate: string;
+  geoTargets: string[];
+}
+
+function toDraft(campaign?: Campaign): CampaignDraft {
+  if (!campaign) {
+    return {
+      name: '',
+      vendor: vendors[0],
+      bidStrategy: 'manual',
+      billingModel: 'cpc',
+      bids: {},
+      maxCpc: '0.50',
+      dailyBudget: '25',
+      totalBudget: '500',
+      startDate: toDateKey(new Date()),
+      endDate: '',
+      geoTargets: [],
+    };
+  }
+  return {
+    name: campaign.name,
+    vendor: campaign.vendor,
+    bidStrategy: campaign.bidStrategy,
+    billingModel: campaign.billingModel ?? 'cpc',
+    bids: Object.fromEntries(
+      Object.entries(campaign.bids).map(([id, bid]) => [id, bid.toFixed(2)])
+    ),
+    maxCpc: campaign.maxCpc.toFixed(2),
+    dailyBudget: String(campaign.dailyBudget),
+    totalBudget: String(campaign.totalBudget),
+    startDate: campaign.startDate,
+    endDate: campaign.endDate || '',
+    geoTargets: campaign.geoTargets || [],
+  };
+}
+
+function validateDraft(draft: CampaignDraft): string | null {
+  const dailyBudget = parseFloat(draft.dailyBudget);
+  const totalBudget = parseFloat(draft.totalBudget);
+
+  if (!draft.name.trim()) return 'Campaign name is required';
+  if (!(dailyBudget > 0)) return 'Daily budget must be greater than 0';
+  if (!(totalBudget >= dailyBudget)) return 'Total budget must be at least the daily budget';
+  if (!draft.startDate) return 'Start date is required';
+  if (draft.endDate && draft.endDate < draft.startDate) return 'End date must be after the start date';
+  if (draft.bidStrategy === 'automatic' && !(parseFloat(draft.maxCpc) > 0)) {
+    return `Max ${BILLING_MODEL_LABELS[draft.billingModel]} must be greater than 0`;
+  }
+  if (draft.bidStrategy === 'manual') {
+    const bids = Object.values(draft.bids).filter(b => b.trim() !== '');
+    if (bids.length === 0) return 'Add a bid for at least one product';
+    if (bids.some(b => !(parseFloat(b) > 0))) return 'Bids must be greater than 0';
+  }
+  return null;
+}
+
+function fromDraft(draft: CampaignDraft, status: Campaign['status']): Omit<Campaign, 'id'> {
+  const vendorProductIds = new Set(
+    mockProducts.filter(p => p.vendor === draft.vendor).map(p => p.id)
+  );
+  return {
+    name: draft.name.trim(),
+    vendor: draft.vendor,
+    status,
+    bidStrategy: draft.bidStrategy,
+    billingModel: draft.billingModel,
+    bids: Object.fromEntries(
+      Object.entries(draft.bids)
+        .filter(([id, bid]) => vendorProductIds.has(id) && bid.trim() !== '')
+        .map(([id, bid]) => [id, parseFloat(bid)])
+    ),
+    maxCpc: parseFloat(draft.maxCpc) || 0,
+    dailyBudget: parseFloat(draft.dailyBudget),
+    totalBudget: parseFloat(draft.totalBudget),
+    startDate: draft.startDate,
+    endDate: draft.endDate || undefined,
+    geoTargets: draft.geoTargets.length > 0 ? draft.geoTargets : undefined,
+  };
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary/50';
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="space-y-1 block">
+      <span className="text-sm font-medium">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function CampaignEditor({
+  campaign,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  campaign?: Campaign;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const { campaignStore } = useTopsortContext();
+  const [draft, setDraft] = useState<CampaignDraft>(() => toDraft(campaign));
+  const [error, setError] = useState<string | null>(null);
+
+  const vendorProducts = mockProducts.filter(p => p.vendor === draft.vendor);
+
+  const update = <K extends keyof CampaignDraft>(key: K, value: CampaignDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    const validationError = validateDraft(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (campaign) {
+      campaignStore.updateCampaign(campaign.id, fromDraft(draft, campaign.status));
+    } else {
+      campaignStore.createCampaign(fromDraft(draft, 'active'));
+    }
+    onSaved();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{campaign ? 'Edit Campaign' : 'New Campaign'}</DialogTitle>
+          <DialogDescription>
+            Campaigns bid on their vendor's products in every sponsored listings auction.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field label="Name">
+            <input
+              className={inputClassName}
+              value={draft.name}
+              onChange={(e) => update('name', e.target.value)}
+              placeholder="Summer Promotion"
+            />
+          </Field>
+          <Field label="Vendor">
+            <select
+              className={inputClassName}
+              value={draft.vendor}
+              onChange={(e) => update('vendor', e.target.value)}
+              disabled={!!campaign}
+            >
+              {vendors.map(vendor => (
+                <option key={vendor} value={vendor}>{vendor}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Daily Budget ($)">
+            <input
+              type="number"
+              min="0"
+              step="1"
+              className={inputClassName}
+              value={draft.dailyBudget}
+              onChange={(e) => update('dailyBudget', e.target.value)}
+            />
+          </Field>
+          <Field label="Total Budget ($)">
+            <input
+              type="number"
+              min="0"
+              step="1"
+              className={inputClassName}
+              value={draft.totalBudget}
+              onChange={(e) => update('totalBudget', e.target.value)}
+            />
+          </Field>
+          <Field label="Start Date">
+            <input
+              type="date"
+              className={inputClassName}
+              value={draft.startDate}
+              onChange={(e) => update('startDate', e.target.value)}
+            />
+          </Field>
+          <Field label="End Date (optional)">
+            <input
+              type="date"
+              className={inputClassName}
+              value={draft.endDate}
+              onChange={(e) => update('endDate', e.target.value)}
+            />
+          </Field>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-sm font-medium">Geo Targeting</span>
+          <p className="text-xs text-muted-foreground">
+            Only bid for shoppers in the selected locations. Select none to target everywhere.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {shopperLocations.map(location => {
+              const selected = draft.geoTargets.includes(location.id);
+              return (
+                <Button
+                  key={location.id}
+                  type="button"
+                  size="sm"
+                  variant={selected ? 'default' : 'outline'}
+                  onClick={() => update(
+                    'geoTargets',
+                    selected
+                      ? draft.geoTargets.filter(id => id !== location.id)
+                      : [...draft.geoTargets, location.id]
+                  )}
+                >
+                  {location.label}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-sm font-medium">Billing Model</span>
+          <div className="flex gap-2">
+            {(['cpc', 'cpm'] as const).map(model => (
+              <Button
+                key={model}
+                type="button"
+                size="sm"
+                variant={draft.billingModel === model ? 'default' : 'outline'}
+                onClick={() => update('billingModel', model)}
+              >
+                {BILLING_MODEL_LABELS[model]}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {draft.billingModel === 'cpc'
+              ? 'Charged the clearing price when a shopper clicks the ad.'
+              : 'Bids are per thousand impressions, charged as each ad is shown.'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <span className="text-sm font-medium">Bid Strategy</span>
+          <div className="flex gap-2">
+            {(['manual', 'automatic'] as const).map(strategy => (
+              <Button
+                key={strategy}
+                type="button"
+                size="sm"
+                variant={draft.bidStrategy === strategy ? 'default' : 'outline'}
+                className="capitalize"
+                onClick={() => update('bidStrategy', strategy)}
+              >
+                {strategy}
+              </Button>
+            ))}
+          </div>
+
+          {draft.bidStrategy === 'manual' ? (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Fixed max {BILLING_MODEL_LABELS[draft.billingModel]} per product. Leave blank to skip a product.
+              </p>
+              {vendorProducts.map(product => (
+                <div key={product.id} className="flex items-center gap-3">
+                  <span className="flex-1 text-sm truncate">{product.name}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.05"
+                    className={cn(inputClassName, 'w-28')}
+                    value={draft.bids[product.id] || ''}
+                    onChange={(e) => update('bids', { ...draft.bids, [product.id]: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <Field label={`Max ${BILLING_MODEL_LABELS[draft.billingModel]} ($)`}>
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                className={inputClassName}
+                value={draft.maxCpc}
+                onChange={(e) => update('maxCpc', e.target.value)}
+              />
+              <span className="text-xs text-muted-foreground">
+                Bids on every {draft.vendor} product, lowered automatically when ahead of pace.
+              </span>
+            </Field>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            {campaign ? 'Save Changes' : 'Create Campaign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CampaignCard({
+  campaign,
+  spend,
+  onEdit,
+  onToggleStatus,
+}: {
+  campaign: Campaign;
+  spend: CampaignSpend;
+  onEdit: () => void;
+  onToggleStatus: () => void;
+}) {
+  const pacing = getPacingMultiplier(campaign, spend);
+  const dailyPercent = Math.min(100, (spend.spentToday / campaign.dailyBudget) * 100);
+  const totalPercent = Math.min(100, (spend.spentTotal / campaign.totalBudget) * 100);
+
+  const pacingLabel =
+    campaign.status === 'paused' ? 'Paused' :
+    pacing === 0 ? 'Not delivering' :
+    pacing < 1 ? 'Throttled' : 'On pace';
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">{campaign.name}</CardTitle>
+            <CardDescription>{campaign.vendor}</CardDescription>
+          </div>
+          <Badge
+            variant={
+              pacingLabel === 'On pace' ? 'default' :
+              pacingLabel === 'Throttled' ? 'secondary' :
+              pacingLabel === 'Paused' ? 'outline' : 'destructive'
+            }
+          >
+            {pacingLabel}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Today</span>
+            <span>{formatCurrency(spend.spentToday)} / {formatCurrency(campaign.dailyBudget)}</span>
+          </div>
+          <Progress value={dailyPercent} className="h-1.5" />
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Lifetime</span>
+            <span>{formatCurrency(spend.spentTotal)} / {formatCurrency(campaign.totalBudget)}</span>
+          </div>
+          <Progress value={totalPercent} className="h-1.5" />
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="capitalize">
+            {campaign.bidStrategy} {BILLING_MODEL_LABELS[campaign.billingModel ?? 'cpc']} bidding
+            {campaign.bidStrategy === 'automatic' && ` • max ${formatCurrency(campaign.maxCpc)}`}
+            {campaign.bidStrategy === 'manual' && ` • ${Object.keys(campaign.bids).length} product(s)`}
+          </span>
+          <span className="flex items-center gap-1">
+            <CalendarDays className="h-3 w-3" />
+            {campaign.startDate} → {campaign.endDate || 'ongoing'}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <MapPin className="h-3 w-3" />
+          {campaign.geoTargets?.length
+            ? campaign.geoTargets.map(getLocationLabel).join(', ')
+            : 'All locations'}
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={onEdit}>
+            <Pencil className="h-3 w-3 mr-2" />
+            Edit
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" onClick={onToggleStatus}>
+            {campaign.status === 'active' ? (
+              <>
+                <Pause className="h-3 w-3 mr-2" />
+                Pause
+              </>
+            ) : (
+              <>
+                <Play className="h-3 w-3 mr-2" />
+                Resume
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CampaignsPage() {
+  const { campaignStore } = useTopsortContext();
+  const [campaigns, setCampaigns] = useState<Campaign[]>(() => campaignStore.getCampaigns());
+  const [spend, setSpend] = useState<Record<string, CampaignSpend>>(() =>
+    Object.fromEntries(campaignStore.getCampaigns().map(c => [c.id, campaignStore.getCampaignSpend(c.id)]))
+  );
+  const [editing, setEditing] = useState<Campaign | undefined>(undefined);
+  const [editorOpen, setEditorOpen] = useState(false);
+  // Remount the editor for each open so its draft starts fresh
+  const [editorKey, setEditorKey] = useState(0);
+
+  const refresh = useCallback(() => {
+    const latest = campaignStore.getCampaigns();
+    setCampaigns(latest);
+    setSpend(Object.fromEntries(latest.map(c => [c.id, campaignStore.getCampaignSpend(c.id)])));
+  }, [campaignStore]);
+
+  // Spend changes as auctions run elsewhere in the app
+  useEffect(() => {
+    const interval = setInterval(refresh, 2000);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const openEditor = (campaign?: Campaign) => {
+    setEditing(campaign);
+    setEditorKey(k => k + 1);
+    setEditorOpen(true);
+  };
+
+  const handleToggleStatus = (campaign: Campaign) => {
+    campaignStore.updateCampaign(campaign.id, { status: campaign.status === 'active' ? 'paused' : 'active' });
+    refresh();
+  };
+
+  const totalSpentToday = Object.values(spend).reduce((sum, s) => sum + s.spentToday, 0);
+  const totalDailyBudget = campaigns
+    .filter(c => c.status === 'active')
+    .reduce((sum, c) => sum + c.dailyBudget, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Campaigns</h1>
+          <p className="text-muted-foreground">
+            Advertiser budgets and bids competing in sponsored listings auctions
+          </p>
+        </div>
+        <Button onClick={() => openEditor()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Campaign
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Megaphone className="h-3 w-3" />
+          {campaigns.filter(c => c.status === 'active').length} active campaigns
+        </span>
+        <span>•</span>
+        <span>
+          {formatCurrency(totalSpentToday)} of {formatCurrency(totalDailyBudget)} daily budget spent
+        </span>
+      </div>
+
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {campaigns.map(campaign => (
+          <CampaignCard
+            key={campaign.id}
+            campaign={campaign}
+            spend={spend[campaign.id] || { campaignId: campaign.id, spentToday: 0, spentTotal: 0 }}
+            onEdit={() => openEditor(campaign)}
+            onToggleStatus={() => handleToggleStatus(campaign)}
+          />
+        ))}
+      </div>
+
+      <CampaignEditor
+        key={editorKey}
+        campaign={editing}
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        onSaved={refresh}
+      />
+    </div>
+  );
+}
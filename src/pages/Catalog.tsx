@@ -4,7 +4,7 @@
  * Includes IAB viewability tracking, add-to-cart, and personalization
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -23,15 +23,20 @@ import {
 } from 'lucide-react';
 import { useTopsortContext } from '@/context/TopsortContext';
 import { useCart } from '@/context/CartContext';
+import { SponsoredBanner } from '@/components/SponsoredBanner';
+import { useViewability } from '@/hooks/useViewability';
 import { mockProducts, getProductById } from '@/mock/products';
 import type { CatalogProduct, SponsoredProduct } from '@/types/topsort';
+import { matchesSearchQuery } from '@/lib/product-search';
 import { cn } from '@/lib/utils';
 
 const categories = ['all', 'electronics', 'home', 'lifestyle', 'fitness', 'food', 'furniture', 'accessories'];
 
-// IAB viewability threshold: 50% visible for 1 second
-const VIEWABILITY_THRESHOLD_PERCENT = 50;
-const VIEWABILITY_THRESHOLD_MS = 1000;
+// Delay before a search re-runs the keyword auction
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Sponsored listings are auctioned and shown in the product grid
+const PRODUCT_GRID_PLACEMENT = { page: 'catalog', location: 'product-grid' };
 
 function isSponsored(product: CatalogProduct): product is SponsoredProduct {
   return 'isSponsored' in product && product.isSponsored === true;
@@ -52,72 +57,21 @@ function ProductCard({
   onAddToCart: (product: CatalogProduct) => void;
   size?: 'normal' | 'large';
 }) {
-  const cardRef = useRef<HTMLDivElement>(null);
-  const impressionTracked = useRef(false);
-  const viewabilityTracked = useRef(false);
-  const viewStartTime = useRef<number | null>(null);
-  const timeInView = useRef(0);
-  const [isViewable, setIsViewable] = useState(false);
   const [addedToCart, setAddedToCart] = useState(false);
 
   const sponsored = isSponsored(product);
 
-  // Track impression and viewability
-  useEffect(() => {
-    if (!sponsored) return;
-
-    let viewabilityTimer: ReturnType<typeof setInterval>;
-
-    const observer = new IntersectionObserver(
-      (entries) => {
-        const entry = entries[0];
-        const percentVisible = Math.round(entry.intersectionRatio * 100);
-
-        if (entry.isIntersecting && percentVisible >= VIEWABILITY_THRESHOLD_PERCENT) {
-          if (!viewStartTime.current) {
-            viewStartTime.current = Date.now();
-          }
-
-          if (!impressionTracked.current) {
-            onTrackImpression(product);
-            impressionTracked.current = true;
-          }
-
-          viewabilityTimer = setInterval(() => {
-            if (viewStartTime.current) {
-              timeInView.current = Date.now() - viewStartTime.current;
-
-              if (timeInView.current >= VIEWABILITY_THRESHOLD_MS && !viewabilityTracked.current) {
-                setIsViewable(true);
-                onTrackViewability(product, true, percentVisible, timeInView.current);
-                viewabilityTracked.current = true;
-                clearInterval(viewabilityTimer);
-              }
-            }
-          }, 100);
-        } else {
-          if (viewStartTime.current && !viewabilityTracked.current) {
-            const finalTimeInView = Date.now() - viewStartTime.current;
-            if (finalTimeInView > 200) {
-              onTrackViewability(product, false, percentVisible, finalTimeInView);
-            }
-          }
-          viewStartTime.current = null;
-          clearInterval(viewabilityTimer);
-        }
-      },
-      { threshold: [0, 0.25, 0.5, 0.75, 1.0] }
-    );
-
-    if (cardRef.current) {
-      observer.observe(cardRef.current);
-    }
-
-    return () => {
-      observer.disconnect();
-      clearInterval(viewabilityTimer);
-    };
-  }, [product, sponsored, onTrackImpression, onTrackViewability]);
+  // Track impression and IAB display viewability (50% visible for 1 second)
+  const { ref: cardRef, isViewable } = useViewability<HTMLDivElement>({
+    enabled: sponsored,
+    resetKey: sponsored ? product.resolvedBidId : undefined,
+    onImpression: () => {
+      if (sponsored) onTrackImpression(product);
+    },
+    onMeasurement: ({ viewable, percentVisible, timeInViewMs }) => {
+      if (sponsored) onTrackViewability(product, viewable, percentVisible, timeInViewMs);
+    },
+  });
 
   const handleAddToCart = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -230,6 +184,7 @@ export function CatalogPage() {
     isInitialized,
     initialize,
     analytics,
+    shopperLocation,
   } = useTopsortContext();
 
   const { addItem } = useCart();
@@ -237,11 +192,13 @@ export function CatalogPage() {
   const [products, setProducts] = useState<CatalogProduct[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isStale, setIsStale] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [auctionQuery, setAuctionQuery] = useState('');
 
   // Check if personalization is active (user has made purchases)
-  const isPersonalized = analytics.purchases > 0;
+  const isPersonalized = analytics.orders > 0;
   const sponsoredCount = products.filter(isSponsored).length;
 
   // Auto-initialize if not done via onboarding
@@ -251,18 +208,30 @@ export function CatalogPage() {
     }
   }, [isInitialized, initialize]);
 
+  // Debounce the search box so the keyword auction isn't re-run on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setAuctionQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   const fetchProducts = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
+      // Scope the auction to the selected category and search text so
+      // sponsored listings stay relevant to what the shopper is browsing
       const auctionResponse = await runAuction({
         auctions: [{
           type: 'listings',
           slots: 3,
+          ...(selectedCategory !== 'all' ? { category: { id: selectedCategory } } : {}),
+          ...(auctionQuery ? { searchQuery: auctionQuery } : {}),
+          ...(shopperLocation ? { geoTargeting: { location: shopperLocation } } : {}),
         }],
-      });
+      }, PRODUCT_GRID_PLACEMENT);
 
+      setIsStale(!!auctionResponse.results[0]?.stale);
       const winners = auctionResponse.results[0]?.winners || [];
       const sponsored: SponsoredProduct[] = winners
         .map(winner => {
@@ -273,6 +242,7 @@ export function CatalogPage() {
             isSponsored: true as const,
             resolvedBidId: winner.resolvedBidId,
             rank: winner.rank,
+            ...(winner.billable === false ? { billable: false } : {}),
           };
         })
         .filter((p): p is SponsoredProduct => p !== null);
@@ -285,11 +255,12 @@ export function CatalogPage() {
       setProducts([...sponsored, ...regular]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load products');
+      setIsStale(false);
       setProducts(mockProducts);
     } finally {
       setLoading(false);
     }
-  }, [runAuction]);
+  }, [runAuction, selectedCategory, auctionQuery, shopperLocation]);
 
   useEffect(() => {
     if (isInitialized) {
@@ -298,7 +269,7 @@ export function CatalogPage() {
   }, [isInitialized, fetchProducts]);
 
   const handleTrackImpression = useCallback((product: SponsoredProduct) => {
-    trackImpression(product.resolvedBidId, 'catalog', 'product-grid');
+    trackImpression(product.resolvedBidId, PRODUCT_GRID_PLACEMENT.page, PRODUCT_GRID_PLACEMENT.location, product.billable !== false);
   }, [trackImpression]);
 
   const handleTrackViewability = useCallback((
@@ -317,7 +288,7 @@ export function CatalogPage() {
 
     // Track add-to-cart as a click event (per Topsort docs)
     if (isSponsored(product)) {
-      trackAddToCart(product.id, 1, product.price, product.resolvedBidId);
+      trackAddToCart(product.id, 1, product.price, product.resolvedBidId, product.billable !== false);
     } else {
       trackAddToCart(product.id, 1, product.price);
     }
@@ -325,7 +296,7 @@ export function CatalogPage() {
 
   const handleViewProduct = (product: CatalogProduct) => {
     if (isSponsored(product)) {
-      trackClick(product.resolvedBidId);
+      trackClick(product.resolvedBidId, product.billable !== false);
     }
     navigate(`/product/${product.id}`, { state: { product } });
   };
@@ -333,8 +304,8 @@ export function CatalogPage() {
   // Filter products (keep sponsored at top when filtering)
   const filteredProducts = products.filter(product => {
     const matchesCategory = selectedCategory === 'all' || product.category === selectedCategory;
-    const matchesSearch = product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                          product.description.toLowerCase().includes(searchQuery.toLowerCase());
+    // Same matching as keyword auctions, so sponsored winners aren't hidden
+    const matchesSearch = matchesSearchQuery(product, searchQuery);
     return matchesCategory && matchesSearch;
   });
 
@@ -365,6 +336,17 @@ export function CatalogPage() {
         </div>
       )}
 
+      {/* Stale fallback notice */}
+      {isStale && !error && (
+        <div className="flex items-center gap-2 p-4 bg-yellow-50 text-yellow-800 border border-yellow-200 rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <span>Auction unavailable: showing cached sponsored results (not billed)</span>
+          <Button variant="ghost" size="sm" onClick={fetchProducts}>
+            Retry
+          </Button>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex flex-col gap-4 sm:flex-row">
         <div className="relative flex-1">
@@ -394,6 +376,9 @@ export function CatalogPage() {
         </div>
       </div>
 
+      {/* Sponsored banner */}
+      <SponsoredBanner slotId="catalog-leaderboard" page="catalog" category={selectedCategory} />
+
       {/* Stats */}
       <div className="flex items-center gap-4 text-sm text-muted-foreground">
         <span>{filteredProducts.length} products</span>
@@ -19,8 +19,9 @@ import {
   Funnel,
   LabelList,
   Cell,
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   PieChart,
   Pie,
 } from 'recharts';
@@ -38,8 +39,35 @@ import {
   TrendingUp,
   DollarSign,
   Target,
+  Scale,
+  LogIn,
+  LogOut,
+  ArrowUpRight,
+  ArrowDownRight,
+  CalendarRange,
+  ArrowUpDown,
+  ChevronRight,
+  X,
+  Table2,
+  LayoutGrid,
 } from 'lucide-react';
 import { useTopsortContext } from '@/context/TopsortContext';
+import {
+  useAnalyticsRange,
+  useAnalyticsBreakdown,
+  getPresetRange,
+  getCustomRange,
+  getPercentChange,
+  formatDayInput,
+  type BreakdownRow,
+  type DateRangePreset,
+  type RangeBucket,
+} from '@/hooks/useAnalyticsRange';
+import type { AnalyticsDimensionType } from '@/lib/analytics-store';
+import { getProductById } from '@/mock/products';
+import type { SimulatedFailure } from '@/mock/mock-server';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { AttributionModel, AttributionReport, ViewabilityReport } from '@/types/topsort';
 import { IntegrationChecklist } from '@/components/IntegrationChecklist';
 import { RequestInspector } from '@/components/RequestInspector';
 import { cn } from '@/lib/utils';
@@ -56,27 +84,102 @@ function formatPercent(value: number): string {
   return `${value.toFixed(1)}%`;
 }
 
+// Change vs the previous period of equal length
+function PeriodChange({ current, previous }: { current: number; previous: number }) {
+  const change = getPercentChange(current, previous);
+  if (change === null) {
+    return <span className="text-xs text-muted-foreground">{current > 0 ? 'New' : '—'}</span>;
+  }
+
+  return (
+    <span className={cn(
+      "inline-flex items-center text-xs font-medium",
+      change > 0 ? "text-green-600" : change < 0 ? "text-red-600" : "text-muted-foreground"
+    )}>
+      {change < 0 ? <ArrowDownRight className="h-3 w-3" /> : <ArrowUpRight className="h-3 w-3" />}
+      {Math.abs(change).toFixed(0)}%
+    </span>
+  );
+}
+
+const RANGE_PRESET_LABELS: Record<DateRangePreset, string> = {
+  'today': 'Today',
+  '7d': '7 days',
+  '30d': '30 days',
+  'custom': 'Custom',
+};
+
+function DateRangePicker({ preset, customFrom, customTo, onPresetChange, onCustomChange }: {
+  preset: DateRangePreset;
+  customFrom: string;
+  customTo: string;
+  onPresetChange: (preset: DateRangePreset) => void;
+  onCustomChange: (from: string, to: string) => void;
+}) {
+  const inputClassName =
+    'px-2 py-1 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary/50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <CalendarRange className="h-4 w-4 text-muted-foreground" />
+      {(Object.keys(RANGE_PRESET_LABELS) as DateRangePreset[]).map(option => (
+        <Button
+          key={option}
+          size="sm"
+          variant={preset === option ? 'default' : 'outline'}
+          onClick={() => onPresetChange(option)}
+        >
+          {RANGE_PRESET_LABELS[option]}
+        </Button>
+      ))}
+      {preset === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            className={inputClassName}
+            value={customFrom}
+            max={customTo}
+            onChange={(e) => onCustomChange(e.target.value, customTo)}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <input
+            type="date"
+            className={inputClassName}
+            value={customTo}
+            min={customFrom}
+            onChange={(e) => onCustomChange(customFrom, e.target.value)}
+          />
+        </div>
+      )}
+      <span className="text-xs text-muted-foreground">Compared with the previous period</span>
+    </div>
+  );
+}
+
 // Funnel colors
 const FUNNEL_COLORS = ['#3b82f6', '#8b5cf6', '#f59e0b', '#10b981', '#06b6d4'];
 
-function ConversionFunnel({ analytics }: { analytics: ReturnType<typeof useTopsortContext>['analytics'] }) {
+function ConversionFunnel({ analytics, previous }: {
+  analytics: ReturnType<typeof useTopsortContext>['analytics'];
+  previous?: ReturnType<typeof useTopsortContext>['analytics'];
+}) {
   const funnelData = useMemo(() => {
-    const { impressions, viewableImpressions, clicks, addToCarts, purchases } = analytics;
+    const { impressions, viewableImpressions, clicks, addToCarts, orders } = analytics;
 
     // Calculate conversion rates
     const viewabilityRate = impressions > 0 ? (viewableImpressions / impressions) * 100 : 0;
     const ctr = viewableImpressions > 0 ? (clicks / viewableImpressions) * 100 : 0;
     const addToCartRate = clicks > 0 ? (addToCarts / clicks) * 100 : 0;
-    const purchaseRate = addToCarts > 0 ? (purchases / addToCarts) * 100 : 0;
+    const orderRate = addToCarts > 0 ? (orders / addToCarts) * 100 : 0;
 
     return [
-      { name: 'Impressions', value: impressions, fill: FUNNEL_COLORS[0], rate: 100 },
-      { name: 'Viewable', value: viewableImpressions, fill: FUNNEL_COLORS[1], rate: viewabilityRate },
-      { name: 'Clicks', value: clicks, fill: FUNNEL_COLORS[2], rate: ctr },
-      { name: 'Add to Cart', value: addToCarts, fill: FUNNEL_COLORS[3], rate: addToCartRate },
-      { name: 'Purchases', value: purchases, fill: FUNNEL_COLORS[4], rate: purchaseRate },
+      { name: 'Impressions', value: impressions, previousValue: previous?.impressions, fill: FUNNEL_COLORS[0], rate: 100 },
+      { name: 'Viewable', value: viewableImpressions, previousValue: previous?.viewableImpressions, fill: FUNNEL_COLORS[1], rate: viewabilityRate },
+      { name: 'Clicks', value: clicks, previousValue: previous?.clicks, fill: FUNNEL_COLORS[2], rate: ctr },
+      { name: 'Add to Cart', value: addToCarts, previousValue: previous?.addToCarts, fill: FUNNEL_COLORS[3], rate: addToCartRate },
+      { name: 'Orders', value: orders, previousValue: previous?.orders, fill: FUNNEL_COLORS[4], rate: orderRate },
     ];
-  }, [analytics]);
+  }, [analytics, previous]);
 
   const hasData = funnelData.some(d => d.value > 0);
 
@@ -84,7 +187,7 @@ function ConversionFunnel({ analytics }: { analytics: ReturnType<typeof useTopso
     return (
       <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
         <Target className="h-12 w-12 mb-4 opacity-30" />
-        <p className="text-lg font-medium">No funnel data yet</p>
+        <p className="text-lg font-medium">No funnel data in this period</p>
         <p className="text-sm">Browse the catalog to generate events</p>
       </div>
     );
@@ -143,7 +246,12 @@ function ConversionFunnel({ analytics }: { analytics: ReturnType<typeof useTopso
             <div className="flex-1 min-w-0">
               <div className="flex items-center justify-between">
                 <span className="font-medium text-sm">{step.name}</span>
-                <span className="text-sm font-bold">{step.value}</span>
+                <span className="flex items-center gap-2">
+                  {step.previousValue !== undefined && (
+                    <PeriodChange current={step.value} previous={step.previousValue} />
+                  )}
+                  <span className="text-sm font-bold">{step.value}</span>
+                </span>
               </div>
               {index > 0 && (
                 <div className="flex items-center gap-2 mt-1">
@@ -161,13 +269,18 @@ function ConversionFunnel({ analytics }: { analytics: ReturnType<typeof useTopso
   );
 }
 
-function ROASCalculator({ analytics }: { analytics: ReturnType<typeof useTopsortContext>['analytics'] }) {
-  const { attributedRevenue, organicRevenue, adSpend } = analytics;
+function ROASCalculator({ analytics, previous }: {
+  analytics: ReturnType<typeof useTopsortContext>['analytics'];
+  previous: ReturnType<typeof useTopsortContext>['analytics'];
+}) {
+  const { attributedRevenue, organicRevenue, adSpend, wonSpend } = analytics;
   const totalRevenue = attributedRevenue + organicRevenue;
 
   // ROAS only uses attributed revenue (from sponsored product purchases)
   const roas = adSpend > 0 ? attributedRevenue / adSpend : 0;
   const attributedProfit = attributedRevenue - adSpend;
+  const previousRoas = previous.adSpend > 0 ? previous.attributedRevenue / previous.adSpend : 0;
+  const previousProfit = previous.attributedRevenue - previous.adSpend;
 
   return (
     <div className="space-y-6">
@@ -190,6 +303,10 @@ function ROASCalculator({ analytics }: { analytics: ReturnType<typeof useTopsort
            roas >= 2 ? "Good performance" :
            roas > 0 ? "Room for improvement" : "No ad-attributed revenue yet"}
         </p>
+        <p className="text-xs text-muted-foreground mt-1 flex items-center justify-center gap-1">
+          Previous period: {previousRoas.toFixed(2)}x
+          <PeriodChange current={roas} previous={previousRoas} />
+        </p>
       </div>
 
       <Separator />
@@ -200,6 +317,7 @@ function ROASCalculator({ analytics }: { analytics: ReturnType<typeof useTopsort
           <div className="flex items-center gap-2 text-green-700 mb-1">
             <DollarSign className="h-4 w-4" />
             <span className="text-sm font-medium">Attributed Revenue</span>
+            <span className="ml-auto"><PeriodChange current={attributedRevenue} previous={previous.attributedRevenue} /></span>
           </div>
           <p className="text-2xl font-bold text-green-700">{formatCurrency(attributedRevenue)}</p>
           <p className="text-xs text-green-600 mt-1">From sponsored products</p>
@@ -208,16 +326,21 @@ function ROASCalculator({ analytics }: { analytics: ReturnType<typeof useTopsort
         <div className="p-4 rounded-lg bg-blue-50 border border-blue-200">
           <div className="flex items-center gap-2 text-blue-700 mb-1">
             <Target className="h-4 w-4" />
-            <span className="text-sm font-medium">Ad Spend</span>
+            <span className="text-sm font-medium">Billed Spend</span>
+            <span className="ml-auto"><PeriodChange current={adSpend} previous={previous.adSpend} /></span>
           </div>
           <p className="text-2xl font-bold text-blue-700">{formatCurrency(adSpend)}</p>
-          <p className="text-xs text-blue-600 mt-1">Cost per click × clicks</p>
+          <p className="text-xs text-blue-600 mt-1" title="Billed on click (CPC) or impression (CPM)">
+            of {formatCurrency(wonSpend)} won
+            {wonSpend > 0 && ` (${((adSpend / wonSpend) * 100).toFixed(0)}% billed)`}
+          </p>
         </div>
 
         <div className="p-4 rounded-lg bg-purple-50 border border-purple-200">
           <div className="flex items-center gap-2 text-purple-700 mb-1">
             <TrendingUp className="h-4 w-4" />
             <span className="text-sm font-medium">Ad Profit</span>
+            <span className="ml-auto"><PeriodChange current={attributedProfit} previous={previousProfit} /></span>
           </div>
           <p className={cn(
             "text-2xl font-bold",
@@ -232,6 +355,7 @@ function ROASCalculator({ analytics }: { analytics: ReturnType<typeof useTopsort
           <div className="flex items-center gap-2 text-gray-700 mb-1">
             <DollarSign className="h-4 w-4" />
             <span className="text-sm font-medium">Organic Revenue</span>
+            <span className="ml-auto"><PeriodChange current={organicRevenue} previous={previous.organicRevenue} /></span>
           </div>
           <p className="text-2xl font-bold text-gray-700">{formatCurrency(organicRevenue)}</p>
           <p className="text-xs text-gray-500 mt-1">Non-sponsored products</p>
@@ -251,43 +375,28 @@ function ROASCalculator({ analytics }: { analytics: ReturnType<typeof useTopsort
   );
 }
 
-function EventTimeline({ analytics }: { analytics: ReturnType<typeof useTopsortContext>['analytics'] }) {
+function EventTimeline({ buckets }: { buckets: RangeBucket[] }) {
   const chartData = useMemo(() => {
-    const { eventTimeline } = analytics;
-    if (eventTimeline.length === 0) return [];
-
-    // Group events by 5-second intervals
-    const buckets: Record<string, { time: string; impression: number; viewability: number; click: number; addToCart: number; purchase: number }> = {};
-
-    eventTimeline.forEach(event => {
-      const time = new Date(event.timestamp);
-      const bucketKey = `${time.getHours()}:${time.getMinutes()}:${Math.floor(time.getSeconds() / 5) * 5}`;
-
-      if (!buckets[bucketKey]) {
-        buckets[bucketKey] = {
-          time: bucketKey,
-          impression: 0,
-          viewability: 0,
-          click: 0,
-          addToCart: 0,
-          purchase: 0,
-        };
-      }
-      // Increment the event type counter
-      const eventType = event.type as keyof typeof buckets[string];
-      if (eventType !== 'time') {
-        buckets[bucketKey][eventType]++;
-      }
-    });
-
-    return Object.values(buckets).slice(-20); // Last 20 buckets
-  }, [analytics]);
+    const eventCount = (counters: RangeBucket['current']) =>
+      counters.impressions + counters.viewableImpressions + counters.clicks + counters.addToCarts + counters.orders;
+    if (!buckets.some(bucket => eventCount(bucket.current) > 0 || eventCount(bucket.previous) > 0)) return [];
+
+    return buckets.map(({ label, current, previous }) => ({
+      time: label,
+      impression: current.impressions,
+      viewability: current.viewableImpressions,
+      click: current.clicks,
+      addToCart: current.addToCarts,
+      purchase: current.orders,
+      previousPeriod: eventCount(previous),
+    }));
+  }, [buckets]);
 
   if (chartData.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
         <Activity className="h-12 w-12 mb-4 opacity-30" />
-        <p className="text-lg font-medium">No events yet</p>
+        <p className="text-lg font-medium">No events in this period</p>
         <p className="text-sm">Events will appear as you interact with products</p>
       </div>
     );
@@ -296,7 +405,7 @@ function EventTimeline({ analytics }: { analytics: ReturnType<typeof useTopsortC
   return (
     <div className="h-[300px]">
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={chartData}>
+        <ComposedChart data={chartData}>
           <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
           <XAxis dataKey="time" tick={{ fontSize: 10 }} />
           <YAxis tick={{ fontSize: 10 }} />
@@ -325,7 +434,15 @@ function EventTimeline({ analytics }: { analytics: ReturnType<typeof useTopsortC
           <Area type="monotone" dataKey="click" stackId="1" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.6} />
           <Area type="monotone" dataKey="addToCart" stackId="1" stroke="#10b981" fill="#10b981" fillOpacity={0.6} />
           <Area type="monotone" dataKey="purchase" stackId="1" stroke="#06b6d4" fill="#06b6d4" fillOpacity={0.6} />
-        </AreaChart>
+          <Line
+            type="monotone"
+            dataKey="previousPeriod"
+            name="previous period (all events)"
+            stroke="#64748b"
+            strokeDasharray="4 4"
+            dot={false}
+          />
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
@@ -337,7 +454,7 @@ function EventBreakdown({ analytics }: { analytics: ReturnType<typeof useTopsort
     { name: 'Viewable', value: analytics.viewableImpressions, color: '#8b5cf6' },
     { name: 'Clicks', value: analytics.clicks, color: '#f59e0b' },
     { name: 'Add to Cart', value: analytics.addToCarts, color: '#10b981' },
-    { name: 'Purchases', value: analytics.purchases, color: '#06b6d4' },
+    { name: 'Orders', value: analytics.orders, color: '#06b6d4' },
   ].filter(d => d.value > 0);
 
   if (data.length === 0) {
@@ -381,20 +498,466 @@ function EventBreakdown({ analytics }: { analytics: ReturnType<typeof useTopsort
   );
 }
 
+type PerformanceSortKey = 'name' | 'impressions' | 'clicks' | 'ctr' | 'adSpend' | 'attributedRevenue' | 'roas';
+
+const PERFORMANCE_COLUMNS: Array<{ key: PerformanceSortKey; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'impressions', label: 'Impressions' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'ctr', label: 'CTR' },
+  { key: 'adSpend', label: 'Spend' },
+  { key: 'attributedRevenue', label: 'Attr. Revenue' },
+  { key: 'roas', label: 'ROAS' },
+];
+
+// Placements have their own panel
+type CatalogDimensionType = Exclude<AnalyticsDimensionType, 'placement'>;
+
+const DIMENSION_LABELS: Record<CatalogDimensionType, string> = {
+  product: 'Products',
+  vendor: 'Vendors',
+  category: 'Categories',
+};
+
+interface PerformanceRow {
+  id: string;
+  name: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  adSpend: number;
+  attributedRevenue: number;
+  roas: number;
+}
+
+function toPerformanceRow({ type, id, counters }: BreakdownRow): PerformanceRow {
+  return {
+    id,
+    name: type === 'product' ? getProductById(id)?.name ?? id : id,
+    impressions: counters.impressions,
+    clicks: counters.clicks,
+    ctr: counters.impressions > 0 ? (counters.clicks / counters.impressions) * 100 : 0,
+    adSpend: counters.adSpend,
+    attributedRevenue: counters.attributedRevenue,
+    roas: counters.adSpend > 0 ? counters.attributedRevenue / counters.adSpend : 0,
+  };
+}
+
+// Sortable breakdown; vendor and category rows drill down into their products
+function PerformanceTable({ rows, onOpenProduct }: {
+  rows: BreakdownRow[];
+  onOpenProduct: (productId: string) => void;
+}) {
+  const [dimension, setDimension] = useState<CatalogDimensionType>('product');
+  const [drillDown, setDrillDown] = useState<{ type: 'vendor' | 'category'; id: string } | null>(null);
+  const [sort, setSort] = useState<{ key: PerformanceSortKey; descending: boolean }>({
+    key: 'adSpend',
+    descending: true,
+  });
+
+  const tableRows = useMemo(() => {
+    const matchesDrillDown = (row: BreakdownRow) => {
+      if (!drillDown || row.type !== 'product') return true;
+      const product = getProductById(row.id);
+      return product?.[drillDown.type] === drillDown.id;
+    };
+
+    return rows
+      .filter(row => row.type === dimension && matchesDrillDown(row))
+      .map(toPerformanceRow)
+      .sort((a, b) => {
+        const order = sort.key === 'name' ? a.name.localeCompare(b.name) : a[sort.key] - b[sort.key];
+        return sort.descending ? -order : order;
+      });
+  }, [rows, dimension, drillDown, sort]);
+
+  const handleSort = (key: PerformanceSortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key !== 'name' }));
+  };
+
+  const handleDimensionChange = (value: string) => {
+    setDimension(value as CatalogDimensionType);
+    setDrillDown(null);
+  };
+
+  const handleRowClick = (row: PerformanceRow) => {
+    if (dimension === 'product') {
+      onOpenProduct(row.id);
+      return;
+    }
+    setDrillDown({ type: dimension, id: row.id });
+    setDimension('product');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Tabs value={dimension} onValueChange={handleDimensionChange}>
+          <TabsList className="h-8">
+            {(Object.keys(DIMENSION_LABELS) as CatalogDimensionType[]).map(type => (
+              <TabsTrigger key={type} value={type} className="text-xs h-7 px-2">
+                {DIMENSION_LABELS[type]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {drillDown && (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setDrillDown(null)}>
+            <span className="capitalize">{drillDown.type}</span>: {drillDown.id}
+            <X className="h-3 w-3 ml-1" />
+          </Button>
+        )}
+      </div>
+
+      {tableRows.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+          <Table2 className="h-10 w-10 mb-3 opacity-30" />
+          <p className="text-sm">No {DIMENSION_LABELS[dimension].toLowerCase()} with activity in this period</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                {PERFORMANCE_COLUMNS.map(column => (
+                  <th key={column.key} className={cn("py-2 font-medium", column.key === 'name' ? "text-left" : "text-right")}>
+                    <button
+                      type="button"
+                      className={cn(
+                        "inline-flex items-center gap-1 hover:text-foreground",
+                        sort.key === column.key && "text-foreground"
+                      )}
+                      onClick={() => handleSort(column.key)}
+                    >
+                      {column.label}
+                      <ArrowUpDown className="h-3 w-3" />
+                    </button>
+                  </th>
+                ))}
+                <th className="w-6" />
+              </tr>
+            </thead>
+            <tbody>
+              {tableRows.map(row => (
+                <tr
+                  key={row.id}
+                  className="border-b last:border-0 cursor-pointer hover:bg-muted/50"
+                  onClick={() => handleRowClick(row)}
+                >
+                  <td className="py-2 font-medium truncate max-w-[220px]" title={row.name}>{row.name}</td>
+                  <td className="py-2 text-right">{row.impressions}</td>
+                  <td className="py-2 text-right">{row.clicks}</td>
+                  <td className="py-2 text-right">{formatPercent(row.ctr)}</td>
+                  <td className="py-2 text-right">{formatCurrency(row.adSpend)}</td>
+                  <td className="py-2 text-right">{formatCurrency(row.attributedRevenue)}</td>
+                  <td className="py-2 text-right">{row.roas.toFixed(2)}x</td>
+                  <td className="py-2 text-right text-muted-foreground">
+                    <ChevronRight className="h-4 w-4 inline" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Fill rate, CTR and eCPM per placement path, with its funnel on selection.
+// Only placements that ran auctions in the range are listed; any other
+// path has no fill rate to show
+function PlacementPerformance({ rows }: { rows: BreakdownRow[] }) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const placements = useMemo(() => (
+    rows
+      .filter(row => row.type === 'placement' && row.counters.slotsRequested > 0)
+      .sort((a, b) => b.counters.impressions - a.counters.impressions)
+  ), [rows]);
+
+  if (placements.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+        <LayoutGrid className="h-10 w-10 mb-3 opacity-30" />
+        <p className="text-sm">No placement auctions in this period</p>
+      </div>
+    );
+  }
+
+  const selected = placements.find(row => row.id === selectedPath);
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-xs text-muted-foreground">
+              <th className="py-2 font-medium text-left">Placement</th>
+              <th className="py-2 font-medium text-right">Fill Rate</th>
+              <th className="py-2 font-medium text-right">Impressions</th>
+              <th className="py-2 font-medium text-right">Clicks</th>
+              <th className="py-2 font-medium text-right">CTR</th>
+              <th className="py-2 font-medium text-right">Orders</th>
+              <th className="py-2 font-medium text-right">eCPM</th>
+            </tr>
+          </thead>
+          <tbody>
+            {placements.map(({ id, counters }) => {
+              const fillRate = (counters.slotsFilled / counters.slotsRequested) * 100;
+              const ctr = counters.impressions > 0 ? (counters.clicks / counters.impressions) * 100 : 0;
+              // Spend per thousand impressions
+              const ecpm = counters.impressions > 0 ? (counters.adSpend / counters.impressions) * 1000 : 0;
+
+              return (
+                <tr
+                  key={id}
+                  className={cn(
+                    "border-b last:border-0 cursor-pointer hover:bg-muted/50",
+                    id === selectedPath && "bg-muted/50"
+                  )}
+                  onClick={() => setSelectedPath(prev => (prev === id ? null : id))}
+                >
+                  <td className="py-2 font-mono text-xs">{id}</td>
+                  <td className="py-2 text-right" title={`${counters.slotsFilled} of ${counters.slotsRequested} slots filled`}>
+                    {formatPercent(fillRate)}
+                  </td>
+                  <td className="py-2 text-right">{counters.impressions}</td>
+                  <td className="py-2 text-right">{counters.clicks}</td>
+                  <td className="py-2 text-right">{formatPercent(ctr)}</td>
+                  <td className="py-2 text-right">{counters.orders}</td>
+                  <td className="py-2 text-right">{formatCurrency(ecpm)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {selected ? (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Funnel for <span className="font-mono text-xs">{selected.id}</span>
+          </p>
+          <ConversionFunnel analytics={selected.counters} />
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Select a placement to see its conversion funnel</p>
+      )}
+    </div>
+  );
+}
+
+// Known customer ID used by the demo login
+const DEMO_CUSTOMER_ID = 'customer-1001';
+
+const SIMULATED_FAILURE_LABELS: Record<SimulatedFailure, string> = {
+  'server': '5xx server error',
+  'rate-limit': '429 rate limited',
+  'unauthorized': '401 unauthorized',
+  'bad-request': '400 bad request',
+  'unprocessable': '422 unprocessable',
+  'timeout': 'Timeout',
+  'network': 'Network failure',
+};
+
+const ATTRIBUTION_MODEL_LABELS: Record<AttributionModel, string> = {
+  'last-click': 'Last click',
+  'last-touch': 'Last touch',
+  'linear': 'Linear',
+};
+
+// Server-side attribution next to what the browser counted on its own
+function AttributionComparison({ analytics, fetchReport }: {
+  analytics: ReturnType<typeof useTopsortContext>['analytics'];
+  fetchReport: ReturnType<typeof useTopsortContext>['fetchAttributionReport'];
+}) {
+  const [model, setModel] = useState<AttributionModel>('last-click');
+  const [report, setReport] = useState<AttributionReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchReport({ model })
+      .then(result => {
+        if (cancelled) return;
+        setReport(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load report');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchReport, model, refreshKey]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(ATTRIBUTION_MODEL_LABELS) as AttributionModel[]).map(option => (
+          <Button
+            key={option}
+            size="sm"
+            variant={model === option ? 'default' : 'outline'}
+            onClick={() => setModel(option)}
+          >
+            {ATTRIBUTION_MODEL_LABELS[option]}
+          </Button>
+        ))}
+        <Button size="sm" variant="ghost" onClick={() => setRefreshKey(key => key + 1)}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {report && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="p-4 rounded-lg border">
+              <p className="text-sm text-muted-foreground">Attributed Revenue</p>
+              <p className="text-2xl font-bold">{formatCurrency(report.attributedRevenue)}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Client counted {formatCurrency(analytics.attributedRevenue)}
+              </p>
+            </div>
+            <div className="p-4 rounded-lg border">
+              <p className="text-sm text-muted-foreground">Attributed Purchases</p>
+              <p className="text-2xl font-bold">
+                {report.attributedPurchases} / {report.totalPurchases}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Client counted {analytics.attributedOrders}
+              </p>
+            </div>
+            <div className={cn(
+              "p-4 rounded-lg border",
+              report.mismatchedPurchases > 0 && "bg-yellow-50 border-yellow-200"
+            )}>
+              <p className="text-sm text-muted-foreground">Mismatched Purchases</p>
+              <p className="text-2xl font-bold">{report.mismatchedPurchases}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {report.clickLookbackDays}-day click, {report.viewLookbackDays}-day view window
+              </p>
+            </div>
+          </div>
+
+          {report.campaigns.length > 0 ? (
+            <div className="divide-y rounded-lg border text-sm">
+              {report.campaigns.map(campaign => (
+                <div key={campaign.campaignId} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="font-medium">{campaign.vendor}</p>
+                    <p className="text-xs text-muted-foreground">{campaign.campaignId}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium">{formatCurrency(campaign.attributedRevenue)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {campaign.attributedPurchases} purchases
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No purchases attributed to ads yet
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Re-fetch after new events have had time to be batched and sent
+const VIEWABILITY_REFRESH_DELAY_MS = 2500;
+
+function ServerViewability({ fetchReport, eventCount }: {
+  fetchReport: ReturnType<typeof useTopsortContext>['fetchViewabilityReport'];
+  eventCount: number;
+}) {
+  const [report, setReport] = useState<ViewabilityReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      fetchReport()
+        .then(result => {
+          if (!cancelled) setReport(result);
+        })
+        .catch(() => {
+          // Error is logged via context; keep showing the last report
+        });
+    }, eventCount === 0 ? 0 : VIEWABILITY_REFRESH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [fetchReport, eventCount]);
+
+  return (
+    <div className="flex items-center justify-between p-3 rounded-lg border text-sm">
+      <div className="space-y-0.5">
+        <p className="font-medium">Server Viewability</p>
+        <p className="text-xs text-muted-foreground">
+          Viewable impressions as aggregated by the Events API
+        </p>
+      </div>
+      <div className="text-right text-xs">
+        {report ? (
+          <>
+            <p className="font-medium">{formatPercent(report.viewableRate)} viewable</p>
+            <p className="text-muted-foreground">
+              {report.viewableImpressions} / {report.measuredImpressions} measured
+            </p>
+          </>
+        ) : (
+          <p className="text-muted-foreground">-</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function DashboardPage() {
   const navigate = useNavigate();
   const {
     apiLogs,
     analytics,
+    status,
     clearLogs,
     clearAnalytics,
     setErrorSimulation,
+    setRateLimitPolicy,
     isInitialized,
     initialize,
     runAuction,
+    fetchAttributionReport,
+    fetchViewabilityReport,
+    identity,
+    logIn,
+    logOut,
   } = useTopsortContext();
 
   const [errorSimEnabled, setErrorSimEnabled] = useState(false);
+  const [simulatedFailure, setSimulatedFailure] = useState<SimulatedFailure>('server');
+  const [saleTraffic, setSaleTraffic] = useState(false);
+  const [rangePreset, setRangePreset] = useState<DateRangePreset>('7d');
+  const [customFrom, setCustomFrom] = useState(() => formatDayInput(getPresetRange('7d').from));
+  const [customTo, setCustomTo] = useState(() => formatDayInput(new Date()));
+
+  const range = useMemo(() => (
+    rangePreset === 'custom'
+      ? getCustomRange(customFrom, customTo) ?? getPresetRange('7d')
+      : getPresetRange(rangePreset)
+  ), [rangePreset, customFrom, customTo]);
+  const { current, previous, buckets } = useAnalyticsRange(range);
+  const breakdown = useAnalyticsBreakdown(range);
 
   useEffect(() => {
     if (!isInitialized) {
@@ -405,7 +968,18 @@ export function DashboardPage() {
   const handleToggleErrorSim = () => {
     const newValue = !errorSimEnabled;
     setErrorSimEnabled(newValue);
-    setErrorSimulation(newValue);
+    setErrorSimulation(newValue, simulatedFailure);
+  };
+
+  const handleChangeSimulatedFailure = (failure: SimulatedFailure) => {
+    setSimulatedFailure(failure);
+    setErrorSimulation(errorSimEnabled, failure);
+  };
+
+  const handleToggleSaleTraffic = () => {
+    const newValue = !saleTraffic;
+    setSaleTraffic(newValue);
+    setRateLimitPolicy(newValue ? 'sale' : 'normal');
   };
 
   const handleTestAuction = async () => {
@@ -421,6 +995,18 @@ export function DashboardPage() {
     }
   };
 
+  const handleToggleLogin = async () => {
+    if (identity.userId) {
+      logOut();
+      return;
+    }
+    try {
+      await logIn(DEMO_CUSTOMER_ID);
+    } catch {
+      // Error is logged via context
+    }
+  };
+
   const handleClearAll = () => {
     clearLogs();
     clearAnalytics();
@@ -447,6 +1033,17 @@ export function DashboardPage() {
         </div>
       </div>
 
+      <DateRangePicker
+        preset={rangePreset}
+        customFrom={customFrom}
+        customTo={customTo}
+        onPresetChange={setRangePreset}
+        onCustomChange={(from, to) => {
+          setCustomFrom(from);
+          setCustomTo(to);
+        }}
+      />
+
       {/* Key Metrics Row */}
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
         <Card>
@@ -454,8 +1051,9 @@ export function DashboardPage() {
             <div className="flex items-center justify-between">
               <Eye className="h-8 w-8 text-blue-500" />
               <div className="text-right">
-                <p className="text-2xl font-bold">{analytics.impressions}</p>
+                <p className="text-2xl font-bold">{current.impressions}</p>
                 <p className="text-xs text-muted-foreground">Impressions</p>
+                <PeriodChange current={current.impressions} previous={previous.impressions} />
               </div>
             </div>
           </CardContent>
@@ -466,8 +1064,9 @@ export function DashboardPage() {
             <div className="flex items-center justify-between">
               <CheckCircle2 className="h-8 w-8 text-purple-500" />
               <div className="text-right">
-                <p className="text-2xl font-bold">{analytics.viewableImpressions}</p>
+                <p className="text-2xl font-bold">{current.viewableImpressions}</p>
                 <p className="text-xs text-muted-foreground">Viewable</p>
+                <PeriodChange current={current.viewableImpressions} previous={previous.viewableImpressions} />
               </div>
             </div>
           </CardContent>
@@ -478,8 +1077,9 @@ export function DashboardPage() {
             <div className="flex items-center justify-between">
               <MousePointer className="h-8 w-8 text-orange-500" />
               <div className="text-right">
-                <p className="text-2xl font-bold">{analytics.clicks}</p>
+                <p className="text-2xl font-bold">{current.clicks}</p>
                 <p className="text-xs text-muted-foreground">Clicks</p>
+                <PeriodChange current={current.clicks} previous={previous.clicks} />
               </div>
             </div>
           </CardContent>
@@ -490,8 +1090,11 @@ export function DashboardPage() {
             <div className="flex items-center justify-between">
               <ShoppingCart className="h-8 w-8 text-green-500" />
               <div className="text-right">
-                <p className="text-2xl font-bold">{analytics.addToCarts}</p>
-                <p className="text-xs text-muted-foreground">Add to Cart</p>
+                <p className="text-2xl font-bold">{current.addToCarts}</p>
+                <p className="text-xs text-muted-foreground">
+                  Add to Cart ({formatCurrency(current.addToCartValue)})
+                </p>
+                <PeriodChange current={current.addToCarts} previous={previous.addToCarts} />
               </div>
             </div>
           </CardContent>
@@ -502,8 +1105,11 @@ export function DashboardPage() {
             <div className="flex items-center justify-between">
               <DollarSign className="h-8 w-8 text-emerald-500" />
               <div className="text-right">
-                <p className="text-2xl font-bold">{analytics.purchases}</p>
-                <p className="text-xs text-muted-foreground">Purchases</p>
+                <p className="text-2xl font-bold">{current.orders}</p>
+                <p className="text-xs text-muted-foreground">
+                  Orders ({current.unitsPurchased} units)
+                </p>
+                <PeriodChange current={current.orders} previous={previous.orders} />
               </div>
             </div>
           </CardContent>
@@ -524,7 +1130,7 @@ export function DashboardPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <ConversionFunnel analytics={analytics} />
+            <ConversionFunnel analytics={current} previous={previous} />
           </CardContent>
         </Card>
 
@@ -540,11 +1146,64 @@ export function DashboardPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <ROASCalculator analytics={analytics} />
+            <ROASCalculator analytics={current} previous={previous} />
           </CardContent>
         </Card>
       </div>
 
+      {/* Product, Vendor & Category Performance */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Table2 className="h-5 w-5" />
+            Performance Breakdown
+          </CardTitle>
+          <CardDescription>
+            Sponsored performance per product, vendor and category. Click a vendor or category to see its products
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PerformanceTable
+            rows={breakdown}
+            onOpenProduct={(productId) => navigate(`/product/${productId}`)}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Placement Performance */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LayoutGrid className="h-5 w-5" />
+            Placement Performance
+          </CardTitle>
+          <CardDescription>
+            Fill rate, CTR and eCPM for each auctioned placement path, to compare slots
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PlacementPerformance rows={breakdown} />
+        </CardContent>
+      </Card>
+
+      {/* Server-side Attribution */}
+      {isInitialized && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Server-side Attribution
+            </CardTitle>
+            <CardDescription>
+              Purchases attributed by the Events API from impressions and clicks, compared with client-side counts
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AttributionComparison analytics={analytics} fetchReport={fetchAttributionReport} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Event Timeline Chart */}
       <Card>
         <CardHeader>
@@ -553,11 +1212,11 @@ export function DashboardPage() {
             Event Timeline
           </CardTitle>
           <CardDescription>
-            Real-time event stream visualization
+            Events per {range.granularity}, with the previous period as a dashed line
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <EventTimeline analytics={analytics} />
+          <EventTimeline buckets={buckets} />
         </CardContent>
       </Card>
 
@@ -576,39 +1235,155 @@ export function DashboardPage() {
             <div className="space-y-6">
               {/* Event Summary */}
               <div className="space-y-4">
-                <EventBreakdown analytics={analytics} />
+                <EventBreakdown analytics={current} />
                 <div className="grid grid-cols-2 gap-2 text-sm">
                   <div className="flex items-center gap-2">
                     <div className="w-3 h-3 rounded-full bg-[#3b82f6]" />
-                    <span>Impressions: {analytics.impressions}</span>
+                    <span>Impressions: {current.impressions}</span>
+                    <PeriodChange current={current.impressions} previous={previous.impressions} />
                   </div>
                   <div className="flex items-center gap-2">
                     <div className="w-3 h-3 rounded-full bg-[#8b5cf6]" />
-                    <span>Viewable: {analytics.viewableImpressions}</span>
+                    <span>Viewable: {current.viewableImpressions}</span>
+                    <PeriodChange current={current.viewableImpressions} previous={previous.viewableImpressions} />
                   </div>
                   <div className="flex items-center gap-2">
                     <div className="w-3 h-3 rounded-full bg-[#f59e0b]" />
-                    <span>Clicks: {analytics.clicks}</span>
+                    <span>Clicks: {current.clicks}</span>
+                    <PeriodChange current={current.clicks} previous={previous.clicks} />
                   </div>
                   <div className="flex items-center gap-2">
                     <div className="w-3 h-3 rounded-full bg-[#10b981]" />
-                    <span>Add to Cart: {analytics.addToCarts}</span>
+                    <span>Add to Cart: {current.addToCarts}</span>
+                    <PeriodChange current={current.addToCarts} previous={previous.addToCarts} />
                   </div>
                   <div className="flex items-center gap-2 col-span-2">
                     <div className="w-3 h-3 rounded-full bg-[#06b6d4]" />
-                    <span>Purchases: {analytics.purchases}</span>
+                    <span>Orders: {current.orders} ({current.unitsPurchased} units)</span>
+                    <PeriodChange current={current.orders} previous={previous.orders} />
                   </div>
                 </div>
               </div>
 
               {/* Controls */}
               <div className="space-y-4">
-                <div className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="flex items-center justify-between p-3 rounded-lg border text-sm">
                   <div className="space-y-0.5">
+                    <p className="font-medium">Auction Circuit Breaker</p>
+                    <p className="text-xs text-muted-foreground">
+                      Opens after repeated failures, probes before closing
+                    </p>
+                  </div>
+                  <span className={cn(
+                    "text-xs font-medium capitalize",
+                    status.circuitState === 'closed' && "text-green-600",
+                    status.circuitState === 'half-open' && "text-yellow-600",
+                    status.circuitState === 'open' && "text-destructive"
+                  )}>
+                    {status.circuitState}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between p-3 rounded-lg border text-sm">
+                  <div className="space-y-0.5">
+                    <p className="font-medium">Stale Auction Fallbacks</p>
+                    <p className="text-xs text-muted-foreground">
+                      Failed auctions served from cache (non-billable)
+                    </p>
+                  </div>
+                  <span className={cn(
+                    "text-xs font-medium",
+                    status.staleAuctionServes > 0 ? "text-yellow-600" : "text-muted-foreground"
+                  )}>
+                    {status.staleAuctionServes}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between p-3 rounded-lg border text-sm">
+                  <div className="space-y-0.5">
+                    <p className="font-medium">Event Queue</p>
+                    <p className="text-xs text-muted-foreground">
+                      Persisted across reloads, retried with backoff
+                    </p>
+                  </div>
+                  <div className="text-right text-xs">
+                    <p>{status.queuedEvents} queued</p>
+                    <p className={cn(status.deadLetterEvents > 0 ? "text-destructive" : "text-muted-foreground")}>
+                      {status.deadLetterEvents} dead-lettered
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-2 p-3 rounded-lg border text-sm">
+                  <div className="space-y-0.5 min-w-0">
+                    <p className="font-medium">Rate Limit</p>
+                    <p className="text-xs text-muted-foreground">
+                      {saleTraffic ? 'Sale traffic: tight per-key limit' : 'Normal per-key limit'}
+                    </p>
+                    <p className={cn("text-xs", status.throttledUntil ? "text-yellow-600" : "text-muted-foreground")}>
+                      {status.throttledUntil
+                        ? `Throttled until ${status.throttledUntil.toLocaleTimeString()}`
+                        : status.rateLimitRemaining !== null
+                          ? `${status.rateLimitRemaining} of ${status.rateLimitLimit} requests left`
+                          : 'No requests yet'}
+                      {status.throttledResponses > 0 && ` · ${status.throttledResponses} × 429`}
+                    </p>
+                  </div>
+                  <Button
+                    variant={saleTraffic ? 'destructive' : 'outline'}
+                    size="sm"
+                    onClick={handleToggleSaleTraffic}
+                    title="Simulate sale traffic"
+                  >
+                    {saleTraffic ? (
+                      <ToggleRight className="h-4 w-4" />
+                    ) : (
+                      <ToggleLeft className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+
+                {isInitialized && (
+                  <ServerViewability
+                    fetchReport={fetchViewabilityReport}
+                    eventCount={analytics.impressions + analytics.viewableImpressions}
+                  />
+                )}
+
+                <div className="flex items-center justify-between gap-2 p-3 rounded-lg border text-sm">
+                  <div className="space-y-0.5 min-w-0">
+                    <p className="font-medium">Shopper Identity</p>
+                    <p className="text-xs text-muted-foreground truncate" title={identity.opaqueUserId}>
+                      {identity.userId ? 'Logged in as' : 'Anonymous'}: {identity.opaqueUserId}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate" title={identity.sessionId}>
+                      Session: {identity.sessionId}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleToggleLogin}>
+                    {identity.userId ? (
+                      <LogOut className="h-4 w-4" />
+                    ) : (
+                      <LogIn className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+
+                <div className="flex items-center justify-between gap-2 p-3 rounded-lg border">
+                  <div className="space-y-1 min-w-0">
                     <p className="font-medium text-sm">Error Simulation</p>
                     <p className="text-xs text-muted-foreground">
-                      Randomly fail 30% of API calls
+                      Randomly fail 30% of API calls with
                     </p>
+                    <select
+                      className="h-7 w-full rounded-md border border-input bg-background px-2 text-xs"
+                      value={simulatedFailure}
+                      onChange={(e) => handleChangeSimulatedFailure(e.target.value as SimulatedFailure)}
+                    >
+                      {(Object.keys(SIMULATED_FAILURE_LABELS) as SimulatedFailure[]).map(failure => (
+                        <option key={failure} value={failure}>{SIMULATED_FAILURE_LABELS[failure]}</option>
+                      ))}
+                    </select>
                   </div>
                   <Button
                     variant={errorSimEnabled ? 'destructive' : 'outline'}
@@ -23,9 +23,12 @@ import {
   Package,
   CreditCard,
   PartyPopper,
+  Eye,
 } from 'lucide-react';
 import { useTopsortContext } from '@/context/TopsortContext';
 import { useCart } from '@/context/CartContext';
+import { SponsoredBanner } from '@/components/SponsoredBanner';
+import { useViewability } from '@/hooks/useViewability';
 import { getProductById } from '@/mock/products';
 import type { CatalogProduct, SponsoredProduct } from '@/types/topsort';
 function isSponsored(product: CatalogProduct): product is SponsoredProduct {
@@ -38,7 +41,7 @@ export function ProductDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const location = useLocation();
-  const { trackPurchase, trackAddToCart } = useTopsortContext();
+  const { trackPurchase, trackAddToCart, trackViewability } = useTopsortContext();
   const { addItem } = useCart();
 
   const [quantity, setQuantity] = useState(1);
@@ -49,6 +52,17 @@ export function ProductDetailPage() {
   const product: CatalogProduct | undefined =
     location.state?.product || (id ? getProductById(id) : undefined);
 
+  // The grid already reported this bid's impression, so the hero only
+  // measures viewability; a second impression would inflate CPM and CTR
+  const sponsoredBidId = product && isSponsored(product) ? product.resolvedBidId : undefined;
+  const { ref: imageRef, isViewable } = useViewability<HTMLDivElement>({
+    enabled: !!sponsoredBidId,
+    resetKey: sponsoredBidId,
+    onMeasurement: ({ viewable, percentVisible, timeInViewMs }) => {
+      if (sponsoredBidId) trackViewability(sponsoredBidId, viewable, percentVisible, timeInViewMs);
+    },
+  });
+
   if (!product) {
     return (
       <div className="flex flex-col items-center justify-center py-20">
@@ -72,11 +86,12 @@ export function ProductDetailPage() {
 
     // Track ALL purchase events for attribution analysis
     // resolvedBidId is only included for sponsored products (attributed purchases)
-    if (sponsored) {
-      trackPurchase(product.id, quantity, product.price, product.resolvedBidId);
-    } else {
-      trackPurchase(product.id, quantity, product.price);
-    }
+    trackPurchase([{
+      productId: product.id,
+      quantity,
+      unitPrice: product.price,
+      ...(sponsored ? { resolvedBidId: product.resolvedBidId } : {}),
+    }]);
 
     setPurchaseStep('success');
   };
@@ -87,7 +102,7 @@ export function ProductDetailPage() {
 
     // Track add-to-cart as click event (per Topsort docs)
     if (sponsored) {
-      trackAddToCart(product.id, quantity, product.price, product.resolvedBidId);
+      trackAddToCart(product.id, quantity, product.price, product.resolvedBidId, product.billable !== false);
     } else {
       trackAddToCart(product.id, quantity, product.price);
     }
@@ -180,13 +195,19 @@ export function ProductDetailPage() {
 
       <div className="grid gap-8 lg:grid-cols-2">
         {/* Product image */}
-        <div className="relative">
+        <div ref={imageRef} className="relative">
           {sponsored && (
-            <div className="absolute top-4 left-4 z-10">
+            <div className="absolute top-4 left-4 z-10 flex gap-1 flex-wrap">
               <Badge className="bg-primary/90 hover:bg-primary gap-1 text-sm py-1">
                 <Sparkles className="h-3 w-3" />
                 Sponsored
               </Badge>
+              {isViewable && (
+                <Badge variant="secondary" className="gap-1 text-sm py-1 bg-green-100 text-green-700">
+                  <Eye className="h-3 w-3" />
+                  Viewable
+                </Badge>
+              )}
             </div>
           )}
           <div className="aspect-square rounded-xl overflow-hidden bg-muted">
@@ -338,6 +359,9 @@ export function ProductDetailPage() {
         </div>
       </div>
 
+      {/* Sponsored banner */}
+      <SponsoredBanner slotId="product-detail-footer" page="product-detail" category={product.category} />
+
       {/* Tracking info card (for demo purposes) */}
       {sponsored && (
         <Card className="border-primary/20 bg-primary/5">
@@ -14,6 +14,7 @@ export interface AuctionSlot {
   slotId?: string;
   products?: ProductFilter;
   category?: CategoryFilter;
+  searchQuery?: string;          // Keyword auction: only bids matching the query compete
   geoTargeting?: GeoTargeting;
 }
 
@@ -37,14 +38,22 @@ export interface AuctionResult {
   resultType: 'listings' | 'banners';
   winners: Winner[];
   error?: AuctionError;
+  stale?: boolean;               // Served from the client cache after a failed auction
 }
 
 export interface Winner {
   rank: number;
   type: 'product' | 'vendor' | 'brand' | 'url';
-  id: string;
+  id: string;                    // Product/vendor/brand ID, or the landing URL for 'url'
   resolvedBidId: string;
-  winnerPrice: number;
+  winnerPrice: number;           // Per click for CPC, per thousand impressions for CPM
+  billingModel?: BillingModel;   // Omitted means 'cpc'
+  asset?: BannerAsset[];         // Banner creatives (banner auctions only)
+  billable?: boolean;            // false for cached winners; omitted means billable
+}
+
+export interface BannerAsset {
+  url: string;
 }
 
 export interface AuctionError {
@@ -63,6 +72,7 @@ export interface Impression {
   placement: {
     path: string;                // e.g., '/search/winter'
   };
+  billable?: boolean;            // false for a cached winner's events; omitted means billable
 }
 
 export interface Click {
@@ -70,6 +80,18 @@ export interface Click {
   id: string;
   occurredAt: string;
   opaqueUserId?: string;
+  billable?: boolean;            // As for Impression
+}
+
+// Viewability measurement for an impression (not part of the documented API)
+export interface Viewability {
+  resolvedBidId: string;
+  id: string;
+  occurredAt: string;
+  opaqueUserId?: string;
+  viewable: boolean;             // Met the viewability standard
+  percentVisible: number;        // 0-100, at the time of measurement
+  timeInViewMs: number;
 }
 
 export interface Purchase {
@@ -77,7 +99,7 @@ export interface Purchase {
   occurredAt: string;
   opaqueUserId?: string;
   items: PurchaseItem[];
-  // resolvedBidId is optional for purchases (can be organic)
+  // Legacy order-level bid; prefer PurchaseItem.resolvedBidId
   resolvedBidId?: string;
 }
 
@@ -85,6 +107,8 @@ export interface PurchaseItem {
   productId: string;
   quantity: number;
   unitPrice: number;
+  // Bid that led to this item; omitted for organic items
+  resolvedBidId?: string;
 }
 
 // Request structure for reportEvent - matches documented API
@@ -92,6 +116,7 @@ export interface EventsRequest {
   impressions?: Impression[];
   clicks?: Click[];
   purchases?: Purchase[];
+  viewabilities?: Viewability[];
 }
 
 // Legacy types kept for backwards compatibility in demo UI
@@ -99,24 +124,125 @@ export type EventType = 'impression' | 'click' | 'purchase';
 
 export interface EventResponse {
   id: string;
-  status: 'received' | 'processed' | 'failed';
+  status: 'received' | 'processed' | 'failed' | 'duplicate';
+  error?: string;                // Why a 'failed' event was rejected
+}
+
+// Identity merge: credits an anonymous shopper's history to a known customer
+export interface IdentityMergeRequest {
+  anonymousId: string;
+  opaqueUserId: string;
+}
+
+export interface IdentityMergeResponse {
+  opaqueUserId: string;
+  mergedEvents: number;          // Impressions, clicks and purchases re-keyed
+}
+
+// Viewability Report Types (aggregated server-side per impression)
+export interface ViewabilityReport {
+  impressions: number;
+  measuredImpressions: number;   // Impressions with at least one viewability event
+  viewableImpressions: number;
+  viewableRate: number;          // Viewable / measured, 0-100
+  averageTimeInViewMs: number;   // Across measured impressions
+}
+
+// Attribution Report Types (computed server-side from reported events)
+export type AttributionModel = 'last-click' | 'last-touch' | 'linear';
+
+export interface AttributionReportRequest {
+  model?: AttributionModel;
+  clickLookbackDays?: number;
+  viewLookbackDays?: number;
+}
+
+export interface CampaignAttribution {
+  campaignId: string;
+  vendor: string;
+  attributedPurchases: number;   // Fractional under the linear model
+  attributedRevenue: number;
+}
+
+export interface AttributionReport {
+  model: AttributionModel;
+  clickLookbackDays: number;
+  viewLookbackDays: number;
+  generatedAt: string;
+  totalPurchases: number;
+  attributedPurchases: number;   // Purchases with at least one credited item
+  totalRevenue: number;
+  attributedRevenue: number;
+  mismatchedPurchases: number;   // An item's client-sent resolvedBidId disagrees with the server
+  campaigns: CampaignAttribution[];
 }
 
 // Integration Status Types
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
 export interface IntegrationStatus {
   apiHealth: 'healthy' | 'degraded' | 'down';
+  circuitState: CircuitState;    // Auctions circuit breaker
   lastAuctionCall: Date | null;
   lastEventSent: Date | null;
   auctionSuccessRate: number;
   eventsSentToday: number;
+  queuedEvents: number;          // Waiting in the persistent queue
+  deadLetterEvents: number;      // Gave up after max retry attempts
+  staleAuctionServes: number;    // Failed auctions answered from the cache
+  throttledUntil: Date | null;   // Auctions and event flushes paused after a 429 until then
+  throttledResponses: number;    // 429s received
+  rateLimitLimit: number | null;     // From the last RateLimit-Limit header
+  rateLimitRemaining: number | null; // From the last RateLimit-Remaining header
   errors: ApiError[];
 }
 
+// Which TopsortError subclass a failure was (see api/errors)
+export type TopsortErrorKind = 'timeout' | 'network' | 'http' | 'validation' | 'throttled' | 'circuit-open' | 'events-pending';
+
 export interface ApiError {
   timestamp: Date;
   endpoint: string;
   message: string;
-  statusCode?: number;
+  kind?: TopsortErrorKind;       // Omitted for unexpected errors
+  retryable?: boolean;           // Whether the same request could succeed if sent again
+  statusCode?: number;           // HTTP errors only
+  validationIssues?: ValidationIssue[];  // Set when a payload failed schema validation
+}
+
+export interface ValidationIssue {
+  path: string;                  // Offending field, e.g. 'purchases[0].items[1].unitPrice'
+  message: string;
+}
+
+// Campaign Types (advertiser side, simulated by the mock server)
+export type BidStrategy = 'manual' | 'automatic';
+
+export type CampaignStatus = 'active' | 'paused';
+
+// CPC campaigns pay per click, CPM campaigns per thousand impressions
+export type BillingModel = 'cpc' | 'cpm';
+
+export interface Campaign {
+  id: string;
+  name: string;
+  vendor: string;                  // Matches Product.vendor
+  status: CampaignStatus;
+  bidStrategy: BidStrategy;
+  billingModel?: BillingModel;     // Omitted means 'cpc'
+  bids: Record<string, number>;    // productId -> max bid (manual strategy), CPC or CPM per billingModel
+  maxCpc: number;                  // Bid ceiling for every vendor product (automatic strategy), same unit as bids
+  dailyBudget: number;
+  totalBudget: number;
+  startDate: string;               // ISO date, e.g. '2026-01-01'
+  endDate?: string;                // Inclusive; open-ended when omitted
+  geoTargets?: string[];           // GeoTargeting locations; all locations when omitted
+}
+
+export interface CampaignSpend {
+  campaignId: string;
+  spentToday: number;
+  spentTotal: number;
 }
 
 // Product Types (for our mock e-commerce)
@@ -136,6 +262,7 @@ export interface SponsoredProduct extends Product {
   isSponsored: true;
   resolvedBidId: string;
   rank: number;
+  billable?: boolean;            // Copied from the winner; false when served from the cache
 }
 
 export type CatalogProduct = Product | SponsoredProduct;